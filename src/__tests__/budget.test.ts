@@ -0,0 +1,179 @@
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+	estimateResourceTokens,
+	getResourceBudgetWarning,
+	resourceBudget,
+} from "../resources/budget.js";
+import { resourceDecorations } from "../resources/decoration.js";
+import type { Resource } from "../resources/resource.js";
+import {
+	resourceBudgetField,
+	resourcesField,
+	setResourceTokens,
+	updateResources,
+} from "../state.js";
+
+const resources: Resource[] = [
+	{ name: "small", uri: "docs://small.md", type: "docs", mimeType: "text/markdown", data: [] },
+	{ name: "large", uri: "docs://large.md", type: "docs", mimeType: "text/markdown", data: [] },
+];
+
+const texts: Record<string, string> = {
+	"docs://small.md": "a".repeat(40),
+	"docs://large.md": "a".repeat(400),
+};
+
+const readResource = vi.fn(async (uri: string) => [{ uri, text: texts[uri] ?? "" }]);
+
+afterEach(() => {
+	readResource.mockClear();
+});
+
+// Let the estimates resolve and be published
+async function flush() {
+	for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+describe("estimateResourceTokens", () => {
+	test("should estimate loaded content parts with the tokenizer", async () => {
+		const resource: Resource = {
+			name: "parts",
+			uri: "docs://parts",
+			type: "docs",
+			data: [
+				{ type: "text", uri: "docs://parts", text: "one two three" },
+				{ type: "blob", uri: "docs://parts", bytes: new Uint8Array(6) },
+			],
+		};
+		const estimate = await estimateResourceTokens(resource, {
+			estimateTokens: (text) => text.split(" ").length,
+		});
+		// 3 words, and 6 bytes are 8 base64 characters
+		expect(estimate).toBe(5);
+	});
+
+	test("should estimate from the size sent by the server", async () => {
+		const resource = { name: "a", uri: "docs://a", type: "docs", data: [] };
+		expect(await estimateResourceTokens({ ...resource, mimeType: "text/plain", size: 400 })).toBe(
+			100,
+		);
+		expect(await estimateResourceTokens({ ...resource, mimeType: "image/png", size: 300 })).toBe(
+			100,
+		);
+	});
+
+	test("should read the contents otherwise", async () => {
+		const resource = resources[1] as Resource;
+		expect(await estimateResourceTokens(resource, { readResource })).toBe(100);
+		expect(await estimateResourceTokens(resource)).toBeUndefined();
+	});
+});
+
+describe("resourceBudget", () => {
+	let view: EditorView;
+
+	function createView(doc: string, options: Parameters<typeof resourceBudget>[0]) {
+		view = new EditorView({
+			state: EditorState.create({
+				doc,
+				extensions: [resourcesField, resourceBudget(options), resourceDecorations],
+			}),
+		});
+		view.dispatch({ effects: updateResources.of(new Map(resources.map((r) => [r.uri, r]))) });
+		return view;
+	}
+
+	afterEach(() => {
+		view.destroy();
+	});
+
+	test("should estimate mentioned resources once each", async () => {
+		createView("Compare @docs://small.md with @docs://large.md and @docs://small.md", {
+			readResource,
+			maxTokens: 1000,
+		});
+		await flush();
+
+		const budget = view.state.field(resourceBudgetField);
+		expect(budget?.tokens).toEqual(
+			new Map([
+				["docs://small.md", 10],
+				["docs://large.md", 100],
+			]),
+		);
+		expect(budget?.pending).toBe(0);
+		expect(readResource).toHaveBeenCalledTimes(2);
+
+		const panel = view.dom.querySelector(".cm-mcp-budget-panel");
+		expect(panel?.textContent).toBe("≈ 110 / 1,000 tokens in mentioned resources");
+		expect(panel?.classList.contains("cm-mcp-budget-over")).toBe(false);
+	});
+
+	test("should forget deleted mentions", async () => {
+		createView("@docs://small.md @docs://large.md", { readResource });
+		await flush();
+
+		view.dispatch({ changes: { from: 16, to: view.state.doc.length } });
+		await flush();
+
+		expect(view.state.field(resourceBudgetField)?.tokens).toEqual(
+			new Map([["docs://small.md", 10]]),
+		);
+	});
+
+	test("should use a custom estimator", async () => {
+		const estimateResource = vi.fn(() => 42);
+		createView("@docs://small.md", { estimateResource, readResource });
+		await flush();
+
+		expect(estimateResource).toHaveBeenCalledWith(resources[0], expect.any(AbortSignal));
+		expect(readResource).not.toHaveBeenCalled();
+		expect(view.state.field(resourceBudgetField)?.tokens.get("docs://small.md")).toBe(42);
+	});
+
+	test("should warn about a resource over the budget per resource", async () => {
+		createView("@docs://small.md @docs://large.md", { readResource, maxResourceTokens: 50 });
+		await flush();
+
+		const widgets = view.dom.querySelectorAll(".cm-resource-widget");
+		expect(widgets[0]?.classList.contains("cm-resource-widget-over-budget")).toBe(false);
+		expect(widgets[1]?.classList.contains("cm-resource-widget-over-budget")).toBe(true);
+		expect(widgets[1]?.getAttribute("title")).toBe(
+			"About 100 tokens, over the budget of 50 tokens per resource",
+		);
+	});
+
+	test("should warn about every mention when the total is over budget", async () => {
+		createView("@docs://small.md @docs://large.md", { readResource, maxTokens: 100 });
+		await flush();
+
+		const widgets = view.dom.querySelectorAll(".cm-resource-widget-over-budget");
+		expect(widgets).toHaveLength(2);
+		expect(widgets[0]?.getAttribute("title")).toBe(
+			"Mentioned resources are about 110 tokens, over the budget of 100 tokens",
+		);
+		expect(view.dom.querySelector(".cm-mcp-budget-over")).not.toBeNull();
+	});
+
+	test("should hide the indicator on request", async () => {
+		createView("@docs://small.md", { readResource, indicator: false });
+		expect(view.dom.querySelector(".cm-mcp-budget-panel")).toBeNull();
+	});
+});
+
+describe("getResourceBudgetWarning", () => {
+	test("should not warn without a budget", () => {
+		const state = EditorState.create({ extensions: [resourceBudgetField] });
+		expect(getResourceBudgetWarning(state, "docs://large.md")).toBeNull();
+	});
+
+	test("should not warn within budget", () => {
+		let state = EditorState.create({ extensions: [resourceBudget({ maxTokens: 100 })] });
+		state = state.update({
+			effects: setResourceTokens.of({ tokens: new Map([["docs://small.md", 10]]), pending: 0 }),
+		}).state;
+		expect(getResourceBudgetWarning(state, "docs://small.md")).toBeNull();
+	});
+});
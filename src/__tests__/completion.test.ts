@@ -1,9 +1,15 @@
+import type { CompletionContext } from "@codemirror/autocomplete";
 import { EditorState } from "@codemirror/state";
 import { EditorView } from "@codemirror/view";
 import { describe, expect, it, vi } from "vitest";
 import { resourceCompletion } from "../resources/completion.js";
-import type { Resource } from "../resources/resource.js";
-import { resourcesField } from "../state.js";
+import type { ResourceIconCompletion } from "../resources/icons.js";
+import type {
+	Resource,
+	ResourceCompletionConfig,
+	ResourceGroupFields,
+} from "../resources/resource.js";
+import { resourcesField, updateResources } from "../state.js";
 
 const createMockResource = (uri: string, name?: string): Resource => ({
 	uri,
@@ -46,11 +52,25 @@ const createMockContext = (text: string, pos: number, explicit = false) => {
 			};
 		},
 		aborted: false,
+		addEventListener: () => {},
 		tokenBefore: (_types: any) => null,
 		prefix: (text: string, from: number) => text.slice(from, pos),
 	};
 };
 
+// Mock context whose abort listeners can be fired, like CodeMirror does on further typing
+const createAbortableContext = (text: string, pos: number, explicit = false) => {
+	const listeners: (() => void)[] = [];
+	const context = {
+		...createMockContext(text, pos, explicit),
+		addEventListener: (_type: "abort", listener: () => void) => listeners.push(listener),
+	} as unknown as CompletionContext;
+	const abort = () => {
+		for (const listener of listeners) listener();
+	};
+	return { context, abort, listeners };
+};
+
 describe("resourceCompletion", () => {
 	describe("basic functionality", () => {
 		it("should return null when no @ character is present", async () => {
@@ -130,7 +150,8 @@ describe("resourceCompletion", () => {
 			expect(option1?.displayLabel).toBe("My File");
 			expect(option1?.detail).toBe("file.txt");
 			expect(option1?.info).toBe("Test resource: file.txt");
-			expect(option1?.type).toBe("constant");
+			expect(option1?.type).toBe("text");
+			expect((option1 as ResourceIconCompletion)?.iconKind).toBe("text");
 			expect(option1?.boost).toBe(100);
 		});
 
@@ -304,6 +325,334 @@ describe("resourceCompletion", () => {
 		});
 	});
 
+	describe("ranking", () => {
+		const resources = [
+			createMockResource("db://tables/users", "Users"),
+			createMockResource("file:///docs/readme.md", "Readme"),
+			{ ...createMockResource("file:///logo", "Logo"), mimeType: "image/png" },
+		];
+
+		it("should match URI paths, descriptions and MIME types", async () => {
+			const completion = resourceCompletion(vi.fn().mockResolvedValue(resources));
+
+			const byPath = await completion(createMockContext("@tables", 7));
+			expect(byPath?.options.map((o) => o.label)).toEqual(["@Users"]);
+
+			const byMimeType = await completion(createMockContext("@png", 4));
+			expect(byMimeType?.options.map((o) => o.label)).toEqual(["@Logo"]);
+
+			const none = await completion(createMockContext("@zzz", 4));
+			expect(none).toBeNull();
+		});
+
+		it("should rank names above other fields and disable the default filter", async () => {
+			const completion = resourceCompletion(vi.fn().mockResolvedValue(resources));
+
+			const result = await completion(createMockContext("@re", 3));
+			expect(result?.filter).toBe(false);
+			// The others only match "re" in their description
+			expect(result?.options.map((o) => o.label)).toEqual(["@Readme", "@Users", "@Logo"]);
+		});
+
+		it("should highlight the matched parts of the name", async () => {
+			const completion = resourceCompletion(vi.fn().mockResolvedValue(resources));
+
+			const result = await completion(createMockContext("@rdm", 4));
+			const [readme] = result?.options ?? [];
+			expect(readme && result?.getMatch?.(readme)).toEqual([0, 1, 3, 5]);
+		});
+
+		it("should boost recently picked resources", async () => {
+			const completion = resourceCompletion(vi.fn().mockResolvedValue(resources));
+			const context = createMockContext("@", 1, true);
+
+			const before = await completion(context);
+			expect(before?.options.map((o) => o.label)).toEqual(["@Users", "@Readme", "@Logo"]);
+
+			const logo = before?.options[2];
+			if (logo?.apply && typeof logo.apply === "function") {
+				logo.apply(context.view, logo, 0, 1);
+			}
+
+			const after = await completion(createMockContext("@", 1, true));
+			expect(after?.options.map((o) => o.label)).toEqual(["@Logo", "@Users", "@Readme"]);
+		});
+	});
+
+	describe("backend search", () => {
+		it("should prefer searchResources over listing resources", async () => {
+			const getResources = vi.fn();
+			const searchResources = vi
+				.fn()
+				.mockResolvedValue([createMockResource("db://tables/users", "Users")]);
+			const completion = resourceCompletion(getResources, undefined, {
+				searchResources,
+				searchDelay: 0,
+				searchLimit: 10,
+			});
+
+			const { context } = createAbortableContext("@user", 5);
+			const result = await completion(context);
+
+			expect(getResources).not.toHaveBeenCalled();
+			expect(searchResources).toHaveBeenCalledWith("user", {
+				limit: 10,
+				signal: expect.any(AbortSignal),
+			});
+			expect(result?.options.map((o) => o.label)).toEqual(["@Users"]);
+		});
+
+		it("should keep results the local matcher does not match", async () => {
+			const searchResources = vi.fn().mockResolvedValue([createMockResource("db://1", "Alpha")]);
+			const completion = resourceCompletion(vi.fn(), undefined, {
+				searchResources,
+				searchDelay: 0,
+			});
+
+			const { context } = createAbortableContext("@zzz", 4);
+			const result = await completion(context);
+
+			expect(result?.options.map((o) => o.label)).toEqual(["@Alpha"]);
+		});
+
+		it("should not search when aborted while debouncing", async () => {
+			const searchResources = vi.fn();
+			const completion = resourceCompletion(vi.fn(), undefined, {
+				searchResources,
+				searchDelay: 200,
+			});
+
+			const { context, abort, listeners } = createAbortableContext("@user", 5);
+			const pending = completion(context);
+			await vi.waitFor(() => expect(listeners).toHaveLength(1), { interval: 1 });
+			abort();
+
+			await expect(pending).resolves.toBeNull();
+			expect(searchResources).not.toHaveBeenCalled();
+		});
+
+		it("should abort the signal of a superseded search", async () => {
+			let signal: AbortSignal | undefined;
+			const searchResources = vi.fn((_query: string, options: { signal?: AbortSignal }) => {
+				signal = options.signal;
+				return new Promise((_resolve, reject) => {
+					signal?.addEventListener("abort", () => reject(new Error("Aborted")));
+				});
+			});
+			const completion = resourceCompletion(vi.fn(), undefined, {
+				searchResources,
+				searchDelay: 0,
+			});
+
+			const { context, abort } = createAbortableContext("@user", 5);
+			const pending = completion(context);
+			await vi.waitFor(() => expect(searchResources).toHaveBeenCalled());
+			abort();
+
+			await expect(pending).resolves.toBeNull();
+			expect(signal?.aborted).toBe(true);
+		});
+	});
+
+	describe("sections", () => {
+		const resources: Resource[] = [
+			{ ...createMockResource("db://users", "Users"), type: "db", server: "postgres" },
+			{ ...createMockResource("file:///logo.png", "Logo"), type: "file", mimeType: "image/png" },
+			{ ...createMockResource("file:///notes.txt", "Notes"), type: "file", server: "files" },
+		];
+
+		const getSections = async (config: ResourceCompletionConfig) => {
+			const completion = resourceCompletion(async () => resources, undefined, config);
+			const result = await completion(createMockContext("@", 1, true));
+			return result?.options.map((o) => [o.label, o.section]);
+		};
+
+		it("should not group resources by default", async () => {
+			const sections = await getSections({});
+			expect(sections?.every(([, section]) => section === undefined)).toBe(true);
+		});
+
+		it("should group by resource type", async () => {
+			expect(await getSections({ groupBy: "type" })).toEqual([
+				["@Users", { name: "db" }],
+				["@Logo", { name: "file" }],
+				["@Notes", { name: "file" }],
+			]);
+		});
+
+		it("should group by MIME family", async () => {
+			expect(await getSections({ groupBy: "mimeType" })).toEqual([
+				["@Users", { name: "text" }],
+				["@Logo", { name: "image" }],
+				["@Notes", { name: "text" }],
+			]);
+		});
+
+		it("should group by server, leaving resources without a server ungrouped", async () => {
+			expect(await getSections({ groupBy: "server" })).toEqual([
+				["@Users", { name: "postgres" }],
+				["@Logo", undefined],
+				["@Notes", { name: "files" }],
+			]);
+		});
+
+		it("should group by a custom key", async () => {
+			const groupBy = (resource: ResourceGroupFields) =>
+				resource.type === "db" ? "Database" : undefined;
+			expect(await getSections({ groupBy })).toEqual([
+				["@Users", { name: "Database" }],
+				["@Logo", undefined],
+				["@Notes", undefined],
+			]);
+		});
+
+		it("should rank sections in the configured order", async () => {
+			expect(await getSections({ groupBy: "type", sectionOrder: ["file", "db"] })).toEqual([
+				["@Users", { name: "db", rank: 1 }],
+				["@Logo", { name: "file", rank: 0 }],
+				["@Notes", { name: "file", rank: 0 }],
+			]);
+		});
+
+		it("should use the icon configured for a section", async () => {
+			const completion = resourceCompletion(async () => resources, undefined, {
+				groupBy: "type",
+				sectionIcons: { db: "class" },
+			});
+			const result = await completion(createMockContext("@", 1, true));
+
+			expect(result?.options.map((o) => o.type)).toEqual(["class", "image", "text"]);
+		});
+
+		it("should group resource templates like resources", async () => {
+			const completion = resourceCompletion(async () => [], undefined, {
+				groupBy: "server",
+				getResourceTemplates: async () => [
+					{ type: "db", uriTemplate: "db://tables/{table}", name: "Table", server: "postgres" },
+				],
+			});
+			const result = await completion(createMockContext("@", 1, true));
+
+			expect(result?.options[0]?.section).toEqual({ name: "postgres" });
+		});
+	});
+
+	describe("cancellation", () => {
+		it("should cancel the request and discard its results when aborted", async () => {
+			let signal: AbortSignal | undefined;
+			let resolveResources: (resources: Resource[]) => void = () => {};
+			const getResources = vi.fn((received?: AbortSignal) => {
+				signal = received;
+				return new Promise<Resource[]>((resolve) => {
+					resolveResources = resolve;
+				});
+			});
+			const completion = resourceCompletion(getResources);
+
+			const { context, abort } = createAbortableContext("@", 1, true);
+			const dispatchSpy = vi.spyOn(context.view as EditorView, "dispatch");
+			const pending = completion(context);
+			await vi.waitFor(() => expect(getResources).toHaveBeenCalled());
+			abort();
+			resolveResources([createMockResource("stale.txt")]);
+
+			await expect(pending).resolves.toBeNull();
+			expect(signal?.aborted).toBe(true);
+			expect(dispatchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should return null instead of throwing when a cancelled request rejects", async () => {
+			const getResources = vi.fn(
+				(signal?: AbortSignal) =>
+					new Promise<Resource[]>((_resolve, reject) => {
+						signal?.addEventListener("abort", () => reject(new Error("Request cancelled")));
+					}),
+			);
+			const completion = resourceCompletion(getResources);
+
+			const { context, abort } = createAbortableContext("@", 1, true);
+			const pending = completion(context);
+			await vi.waitFor(() => expect(getResources).toHaveBeenCalled());
+			abort();
+
+			await expect(pending).resolves.toBeNull();
+		});
+
+		it("should pass the signal to template argument completion", async () => {
+			const completeTemplateArgument = vi.fn().mockResolvedValue(["users"]);
+			const completion = resourceCompletion(vi.fn(), undefined, {
+				getResourceTemplates: async () => [{ uriTemplate: "db://tables/{table}", name: "Table" }],
+				completeTemplateArgument,
+			});
+
+			const { context } = createAbortableContext("@db://tables/us", 15);
+			await completion(context);
+
+			expect(completeTemplateArgument).toHaveBeenCalledWith(
+				expect.objectContaining({ uriTemplate: "db://tables/{table}" }),
+				{ name: "table", value: "us" },
+				expect.any(AbortSignal),
+			);
+		});
+	});
+
+	describe("paginated resources", () => {
+		it("should show the first page and stream later pages into the state", async () => {
+			let releaseSecondPage: () => void = () => {};
+			const secondPage = new Promise<void>((resolve) => {
+				releaseSecondPage = resolve;
+			});
+			async function* getResourcePages() {
+				yield [createMockResource("page1.txt")];
+				await secondPage;
+				yield [createMockResource("page2.txt")];
+			}
+			const getResources = vi.fn();
+			const pagesSpy = vi.fn(getResourcePages);
+			const completion = resourceCompletion(getResources, undefined, {
+				getResourcePages: pagesSpy,
+			});
+
+			const context = createMockContext("@", 1, true);
+			const first = await completion(context);
+
+			expect(getResources).not.toHaveBeenCalled();
+			expect(first?.options.map((o) => o.label)).toEqual(["@page1.txt"]);
+
+			// A query while the stream is in flight reuses the pages received so far
+			const pending = await completion(context);
+			expect(pending?.options.map((o) => o.label)).toEqual(["@page1.txt"]);
+
+			releaseSecondPage();
+			await new Promise((resolve) => setTimeout(resolve, 0));
+
+			expect(context.view.state.field(resourcesField).has("page2.txt")).toBe(true);
+			expect(pagesSpy).toHaveBeenCalledTimes(1);
+
+			// A new query once the stream is complete fetches again
+			await completion(createMockContext("@", 1, true));
+			expect(pagesSpy).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("resource state", () => {
+		it("should keep the data of known resources when listing them again", async () => {
+			const data = [{ uri: "a.txt", mimeType: "text/plain", text: "fresh" }];
+			const context = createMockContext("@", 1, true);
+			context.view.dispatch({
+				effects: updateResources.of(new Map([["a.txt", { ...createMockResource("a.txt"), data }]])),
+			});
+			const listed = { ...createMockResource("a.txt", "Renamed"), data: [] };
+			const completion = resourceCompletion(vi.fn().mockResolvedValue([listed]));
+
+			await completion(context);
+
+			const resource = context.view.state.field(resourcesField).get("a.txt");
+			expect(resource?.name).toBe("Renamed");
+			expect(resource?.data).toBe(data);
+		});
+	});
+
 	describe("error handling", () => {
 		it("should handle getResources errors gracefully", async () => {
 			const getResources = vi.fn().mockRejectedValue(new Error("Failed to fetch"));
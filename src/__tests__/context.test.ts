@@ -0,0 +1,251 @@
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { buildPromptContext, estimateTokens as estimateDefault } from "../resources/context.js";
+import type { Resource, ResourceContents } from "../resources/resource.js";
+import { resourcesField, updateResources } from "../state.js";
+
+const resources: Resource[] = [
+	{
+		name: "readme",
+		uri: "docs://readme.md",
+		type: "file",
+		mimeType: "text/markdown",
+		description: "Project readme",
+		data: {},
+	},
+	{ name: "logo", uri: "docs://logo.png", type: "file", mimeType: "image/png", data: {} },
+];
+
+const contents: Record<string, ResourceContents[]> = {
+	"docs://readme.md": [
+		{ uri: "docs://readme.md", mimeType: "text/markdown", text: "a".repeat(40) },
+	],
+	"docs://logo.png": [{ uri: "docs://logo.png", mimeType: "image/png", blob: "AAEC/w==" }],
+};
+
+function createView(doc: string): EditorView {
+	const view = new EditorView({
+		state: EditorState.create({ doc, extensions: [resourcesField] }),
+	});
+	view.dispatch({ effects: updateResources.of(new Map(resources.map((r) => [r.uri, r]))) });
+	return view;
+}
+
+const readResource = vi.fn(async (uri: string) => {
+	const found = contents[uri];
+	if (!found) throw new Error(`Unknown resource ${uri}`);
+	return found;
+});
+
+describe("buildPromptContext", () => {
+	let view: EditorView;
+
+	afterEach(() => {
+		view.destroy();
+		readResource.mockClear();
+	});
+
+	test("should format mentions and deduplicate resources", async () => {
+		view = createView("Read @docs://readme.md then @docs://logo.png and @docs://readme.md");
+		const context = await buildPromptContext(view, { readResource });
+
+		expect(context.text).toBe(
+			"Read [readme](docs://readme.md) then [logo](docs://logo.png) and [readme](docs://readme.md)",
+		);
+		expect(context.resources.map((r) => r.uri)).toEqual(["docs://readme.md", "docs://logo.png"]);
+		expect(readResource).toHaveBeenCalledTimes(2);
+		expect(context.content).toEqual([
+			{ type: "resource", resource: contents["docs://readme.md"]?.[0] },
+			{ type: "resource", resource: contents["docs://logo.png"]?.[0] },
+		]);
+		expect(context.notes).toEqual([]);
+	});
+
+	test("should use a custom mention format", async () => {
+		view = createView("Summarize @docs://readme.md");
+		const context = await buildPromptContext(view, {
+			readResource,
+			formatMention: (resource) => `<${resource.name}>`,
+		});
+		expect(context.text).toBe("Summarize <readme>");
+	});
+
+	test("should only link resources in link mode", async () => {
+		view = createView("Summarize @docs://readme.md");
+		const context = await buildPromptContext(view, { readResource, mode: "link" });
+
+		expect(readResource).not.toHaveBeenCalled();
+		expect(context.content).toEqual([
+			{
+				type: "resource_link",
+				uri: "docs://readme.md",
+				name: "readme",
+				description: "Project readme",
+				mimeType: "text/markdown",
+			},
+		]);
+	});
+
+	test("should link resources without a way to read them", async () => {
+		view = createView("Summarize @docs://logo.png");
+		const context = await buildPromptContext(view);
+		expect(context.content).toEqual([
+			{ type: "resource_link", uri: "docs://logo.png", name: "logo", mimeType: "image/png" },
+		]);
+	});
+
+	test("should link resources that fail to read", async () => {
+		view = createView("Summarize @docs://readme.md");
+		const context = await buildPromptContext(view, {
+			readResource: () => Promise.reject(new Error("Not found")),
+		});
+		expect(context.content).toMatchObject([{ type: "resource_link", uri: "docs://readme.md" }]);
+		expect(context.notes).toEqual([{ uri: "docs://readme.md", action: "linked", reason: "error" }]);
+	});
+
+	test("should reject once cancelled", async () => {
+		view = createView("Summarize @docs://readme.md");
+		const controller = new AbortController();
+		controller.abort();
+		await expect(
+			buildPromptContext(view, {
+				readResource: () => Promise.reject(new Error("Aborted")),
+				signal: controller.signal,
+			}),
+		).rejects.toThrow("Aborted");
+	});
+
+	test("should truncate text parts over the size limit", async () => {
+		view = createView("Summarize @docs://readme.md");
+		const context = await buildPromptContext(view, { readResource, maxResourceLength: 10 });
+		expect(context.content).toEqual([
+			{
+				type: "resource",
+				resource: {
+					uri: "docs://readme.md",
+					mimeType: "text/markdown",
+					text: "aaaaaaaaaa\n[truncated]",
+				},
+			},
+		]);
+		expect(context.notes).toEqual([
+			{ uri: "docs://readme.md", action: "truncated", reason: "size" },
+		]);
+	});
+
+	test("should link binary parts over the size limit", async () => {
+		view = createView("Show @docs://logo.png");
+		const context = await buildPromptContext(view, { readResource, maxBlobBytes: 2 });
+		expect(context.content).toMatchObject([{ type: "resource_link", uri: "docs://logo.png" }]);
+		expect(context.notes).toEqual([{ uri: "docs://logo.png", action: "linked", reason: "size" }]);
+	});
+
+	describe("token budget", () => {
+		// One token per character keeps the arithmetic readable
+		const estimateTokens = (text: string) => text.length;
+		// "Summarize [readme](docs://readme.md)" is 36 characters
+		const doc = "Summarize @docs://readme.md";
+
+		test("should truncate text to what is left of the budget", async () => {
+			view = createView(doc);
+			// 36 characters of text, 10 of the resource and 12 of "\n[truncated]"
+			const context = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxTokens: 58,
+			});
+			expect(context.content).toMatchObject([
+				{ type: "resource", resource: { text: "aaaaaaaaaa\n[truncated]" } },
+			]);
+			expect(context.notes).toEqual([
+				{ uri: "docs://readme.md", action: "truncated", reason: "budget" },
+			]);
+		});
+
+		test("should truncate text once when over both the size limit and the budget", async () => {
+			view = createView(doc);
+			const context = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxResourceLength: 20,
+				maxTokens: 58,
+			});
+			expect(context.content).toMatchObject([
+				{ type: "resource", resource: { text: "aaaaaaaaaa\n[truncated]" } },
+			]);
+			expect(context.notes).toEqual([
+				{ uri: "docs://readme.md", action: "truncated", reason: "budget" },
+			]);
+		});
+
+		test("should keep truncated text and its marker within the budget", async () => {
+			view = createView(doc);
+			const maxTokens = 15;
+			const context = await buildPromptContext(view, { readResource, maxTokens });
+
+			const embedded = context.content.map((block) =>
+				block.type === "resource" && "text" in block.resource ? block.resource.text : "",
+			);
+			const total = [context.text, ...embedded].reduce(
+				(sum, text) => sum + estimateDefault(text),
+				0,
+			);
+			expect(context.notes).toEqual([
+				{ uri: "docs://readme.md", action: "truncated", reason: "budget" },
+			]);
+			expect(total).toBeLessThanOrEqual(maxTokens);
+		});
+
+		test("should link text when not even the truncation marker fits", async () => {
+			view = createView(doc);
+			const context = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxTokens: 46,
+			});
+			expect(context.content).toMatchObject([{ type: "resource_link", uri: "docs://readme.md" }]);
+			expect(context.notes).toEqual([
+				{ uri: "docs://readme.md", action: "linked", reason: "budget" },
+			]);
+		});
+
+		test("should link or omit text over the budget", async () => {
+			view = createView(doc);
+			const linked = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxTokens: 46,
+				overflow: "link",
+			});
+			expect(linked.content).toMatchObject([{ type: "resource_link", uri: "docs://readme.md" }]);
+			expect(linked.notes).toEqual([
+				{ uri: "docs://readme.md", action: "linked", reason: "budget" },
+			]);
+
+			const omitted = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxTokens: 46,
+				overflow: "omit",
+			});
+			expect(omitted.content).toEqual([]);
+			expect(omitted.notes).toEqual([
+				{ uri: "docs://readme.md", action: "omitted", reason: "budget" },
+			]);
+		});
+
+		test("should embed text within the budget", async () => {
+			view = createView(doc);
+			const context = await buildPromptContext(view, {
+				readResource,
+				estimateTokens,
+				maxTokens: 76,
+			});
+			expect(context.content).toEqual([
+				{ type: "resource", resource: contents["docs://readme.md"]?.[0] },
+			]);
+			expect(context.notes).toEqual([]);
+		});
+	});
+});
@@ -4,8 +4,9 @@ import type { Decoration } from "@codemirror/view";
 import { EditorView } from "@codemirror/view";
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { resourceDecorations } from "../resources/decoration.js";
+import { createResourceIconRegistry } from "../resources/icons.js";
 import type { Resource } from "../resources/resource.js";
-import { mcpOptionsField, resourcesField, updateResources } from "../state.js";
+import { mcpOptionsField, resourceIconsField, resourcesField, updateResources } from "../state.js";
 import { invariant } from "../utils.js";
 
 // Helper function to count decorations
@@ -51,6 +52,37 @@ describe("resourceDecorations", () => {
 		view.destroy();
 	});
 
+	test("should render the icon of the resource before its name", () => {
+		const state = EditorState.create({
+			doc: "@db://users",
+			extensions: [
+				resourcesField,
+				resourceDecorations,
+				mcpOptionsField.init(() => ({})),
+				resourceIconsField.init(() => createResourceIconRegistry({ types: { db: "table" } })),
+			],
+		});
+		const iconView = new EditorView({ state });
+		iconView.dispatch({
+			effects: updateResources.of(
+				new Map([["db://users", { name: "users", uri: "db://users", type: "db", data: {} }]]),
+			),
+		});
+
+		const decorations = iconView.plugin(resourceDecorations)?.decorations;
+		invariant(decorations !== undefined, "decorations should be defined");
+		const widgets: HTMLElement[] = [];
+		decorations.between(0, iconView.state.doc.length, (_from, _to, decoration) => {
+			widgets.push(decoration.spec.widget.toDOM(iconView));
+		});
+
+		expect(widgets[0]?.firstElementChild?.className).toBe(
+			"cm-mcp-resource-icon cm-mcp-resource-icon-table",
+		);
+		expect(widgets[0]?.textContent).toBe("@users");
+		iconView.destroy();
+	});
+
 	test("should create decorations for URIs in text", () => {
 		// Set up initial resources
 		view.dispatch({
@@ -206,6 +238,24 @@ describe("resourceDecorations", () => {
 		expect(countDecorations(decorations)).toBe(1); // Only the known URI should be decorated
 	});
 
+	test("should make mentions of known resources atomic", () => {
+		view.dispatch({
+			effects: updateResources.of(new Map(sampleResources.map((r) => [r.uri, r]))),
+		});
+		view.dispatch({
+			changes: { from: 0, insert: "@unknown://repo some text @github://repo1" },
+		});
+
+		const ranges: Array<[number, number]> = [];
+		for (const source of view.state.facet(EditorView.atomicRanges)) {
+			source(view).between(0, view.state.doc.length, (from, to) => {
+				ranges.push([from, to]);
+			});
+		}
+		// Unknown mentions are still being typed, and stay editable
+		expect(ranges).toEqual([[26, 41]]);
+	});
+
 	test("should handle click events when handler is provided", () => {
 		const clickHandler = vi.fn();
 		const state = EditorState.create({
@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import { createDefaultTooltip, findResourceAtPosition } from "../resources/hover.js";
+import { createResourceIconRegistry } from "../resources/icons.js";
 import type { Resource } from "../resources/resource.js";
 import { invariant } from "../utils.js";
 
@@ -70,6 +71,15 @@ describe("hover", () => {
 			expect(result).toBeNull();
 		});
 
+		test("should honor a custom prefix", () => {
+			const text = "@github://repo1 #github://repo1";
+			const result = findResourceAtPosition(text, 20, sampleResources, 0, "#");
+
+			expect(result?.resource.uri).toBe("github://repo1");
+			expect(result?.start).toBe(16);
+			expect(findResourceAtPosition(text, 5, sampleResources, 0, "#")).toBeNull();
+		});
+
 		test.skip("should handle line offset", () => {
 			const text = "@github://repo1";
 			const lineStart = 100;
@@ -103,6 +113,18 @@ describe("hover", () => {
 			expect(mimeType?.textContent).toBe(resource.mimeType);
 		});
 
+		test("should show the icon of the resource in the title", () => {
+			const resource = sampleResources.get("github://repo1");
+			invariant(resource !== undefined, "Resource not found");
+			const tooltip = createDefaultTooltip(
+				resource,
+				createResourceIconRegistry({ types: { github: "repository" } }),
+			);
+
+			const icon = tooltip.dom.querySelector(".cm-tooltip-cursor-title .cm-mcp-resource-icon");
+			expect(icon?.classList.contains("cm-mcp-resource-icon-repository")).toBe(true);
+		});
+
 		test("should handle missing optional fields", () => {
 			const resource = sampleResources.get("gitlab://repo2");
 			invariant(resource !== undefined, "Resource not found");
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+	createResourceIconRegistry,
+	getResourceIcon,
+	renderResourceIcon,
+	resourceIconOption,
+} from "../resources/icons.js";
+
+describe("getResourceIcon", () => {
+	it("should choose the icon by MIME type, then MIME family, then type", () => {
+		expect(getResourceIcon({ type: "file", mimeType: "text/csv" })).toEqual({ kind: "dataset" });
+		expect(getResourceIcon({ type: "file", mimeType: "image/png" })).toEqual({ kind: "image" });
+		expect(getResourceIcon({ type: "postgres" })).toEqual({ kind: "dataset" });
+	});
+
+	it("should fall back to files with a MIME type and variables without", () => {
+		expect(getResourceIcon({ type: "github", mimeType: "application/x-git" }).kind).toBe("file");
+		expect(getResourceIcon({ type: "github" }).kind).toBe("variable");
+	});
+
+	it("should add custom kinds to the defaults", () => {
+		const registry = createResourceIconRegistry({
+			types: { github: "repository" },
+			mimeTypes: { "application/json": "function" },
+		});
+
+		expect(getResourceIcon({ type: "github" }, registry).kind).toBe("repository");
+		expect(getResourceIcon({ type: "file", mimeType: "application/json" }, registry).kind).toBe(
+			"function",
+		);
+		expect(getResourceIcon({ type: "file", mimeType: "image/png" }, registry).kind).toBe("image");
+	});
+
+	it("should honor server icons over https or data URIs, preferring theme-less ones", () => {
+		const icons = [
+			{ src: "http://example.com/plain.png" },
+			{ src: "https://example.com/dark.png", theme: "dark" as const },
+			{ src: "https://example.com/any.png" },
+		];
+
+		expect(getResourceIcon({ type: "file", icons })).toEqual({
+			kind: "file",
+			src: "https://example.com/any.png",
+		});
+		expect(
+			getResourceIcon({ type: "file", icons: [{ src: "javascript:alert(1)" }] }).src,
+		).toBeUndefined();
+	});
+
+	it("should ignore server icons when disabled", () => {
+		const registry = createResourceIconRegistry({ serverIcons: false });
+		const icons = [{ src: "data:image/png;base64,AAAA" }];
+
+		expect(getResourceIcon({ type: "file", icons }, registry)).toEqual({ kind: "file" });
+	});
+});
+
+describe("renderResourceIcon", () => {
+	it("should render the kind as a class, leaving the glyph to the theme", () => {
+		const dom = renderResourceIcon({ kind: "dataset" });
+
+		expect(dom.className).toBe("cm-mcp-resource-icon cm-mcp-resource-icon-dataset");
+		expect(dom.textContent).toBe("");
+	});
+
+	it("should render server icons as images", () => {
+		const dom = renderResourceIcon({ kind: "file", src: "https://example.com/icon.png" });
+
+		expect(dom.querySelector("img")?.getAttribute("src")).toBe("https://example.com/icon.png");
+	});
+
+	it("should only render icons of resource completions", () => {
+		expect(resourceIconOption.render({ label: "notes", type: "text" })).toBeNull();
+		expect(
+			resourceIconOption.render({ label: "@notes", type: "text", iconSrc: "https://a/i.png" }),
+		).not.toBeNull();
+		expect(
+			resourceIconOption.render({ label: "@notes", type: "text", iconKind: "text" })?.className,
+		).toBe("cm-mcp-resource-icon cm-mcp-resource-icon-text");
+	});
+});
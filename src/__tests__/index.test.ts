@@ -6,15 +6,36 @@ describe("index.ts exports", () => {
 		const sortedExports = Object.keys(exports).sort();
 		expect(sortedExports).toMatchInlineSnapshot(`
 			[
+			  "buildPromptContext",
+			  "connectionStateField",
 			  "createDefaultTooltip",
+			  "createPromptTooltip",
+			  "createResourceIconRegistry",
+			  "createTriggerGuard",
+			  "estimateResourceTokens",
+			  "estimateTokens",
 			  "extractResources",
+			  "getContentText",
+			  "getResourceBudgetWarning",
+			  "getResourceIcon",
+			  "hoverPrompt",
 			  "hoverResource",
 			  "mcpExtension",
+			  "mcpProviderField",
+			  "promptDecorations",
+			  "renderResourcePreview",
+			  "resourceBudget",
+			  "resourceBudgetField",
 			  "resourceCompletion",
 			  "resourceDecorations",
+			  "resourceIconOption",
+			  "resourceIconsField",
 			  "resourceInputFilter",
 			  "resourceTheme",
 			  "resourcesField",
+			  "toContentPart",
+			  "triggersField",
+			  "withResourcePreview",
 			]
 		`);
 	});
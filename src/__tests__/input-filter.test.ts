@@ -1,7 +1,11 @@
-import { EditorState, Transaction } from "@codemirror/state";
+import { EditorSelection, EditorState, Transaction } from "@codemirror/state";
+import { EditorView, runScopeHandlers } from "@codemirror/view";
+import { minimalSetup } from "codemirror";
 import { describe, expect, it } from "vitest";
+import { promptDecorations } from "../prompts/decoration.js";
+import { resourceDecorations } from "../resources/decoration.js";
 import { resourceInputFilter } from "../resources/input-filter.js";
-import { resourcesField, updateResources } from "../state.js";
+import { promptsField, resourcesField, updatePrompts, updateResources } from "../state.js";
 
 // Helper to create a state with resources
 function createStateWithResources(doc: string, resourceUris: string[] = []) {
@@ -30,6 +34,43 @@ function createStateWithResources(doc: string, resourceUris: string[] = []) {
 	}).state;
 }
 
+// Editor with the default keymap, where deleting relies on the atomic ranges of the decorations
+function createView(
+	doc: string,
+	selection: number | EditorSelection,
+	resourceUris = ["github://repo"],
+) {
+	const view = new EditorView({
+		state: EditorState.create({
+			doc,
+			selection: typeof selection === "number" ? { anchor: selection } : selection,
+			extensions: [
+				resourcesField,
+				promptsField,
+				resourceInputFilter,
+				minimalSetup,
+				EditorState.allowMultipleSelections.of(true),
+				resourceDecorations,
+				promptDecorations,
+			],
+		}),
+		parent: document.createElement("div"),
+	});
+	view.dispatch({
+		effects: [
+			updateResources.of(
+				new Map(resourceUris.map((uri) => [uri, { type: "github", uri, name: uri, data: null }])),
+			),
+			updatePrompts.of(new Map([["read_table", { name: "read_table" }]])),
+		],
+	});
+	return view;
+}
+
+function pressKey(view: EditorView, key: string) {
+	runScopeHandlers(view, new KeyboardEvent("keydown", { key }), "editor");
+}
+
 describe("resourceInputFilter", () => {
 	describe("filter creation and basic behavior", () => {
 		it("should create a transaction filter", () => {
@@ -131,6 +172,16 @@ describe("resourceInputFilter", () => {
 			expect(tr.selection?.main.anchor).toBe(6);
 		});
 
+		it("should delete entire resource when pressing Backspace at end", () => {
+			const view = createView("Check @github://repo here", 20);
+
+			pressKey(view, "Backspace");
+
+			expect(view.state.doc.toString()).toBe("Check  here");
+			expect(view.state.selection.main.anchor).toBe(6);
+			view.destroy();
+		});
+
 		it("should not delete resource if it doesn't exist in resourcesField", () => {
 			const state = createStateWithResources("Check @github://nonexistent here", []);
 
@@ -168,6 +219,90 @@ describe("resourceInputFilter", () => {
 		});
 	});
 
+	describe("deleting with several cursors or a selection", () => {
+		it("should delete the resource at every cursor", () => {
+			const view = createView(
+				"@github://a and @github://b",
+				EditorSelection.create([EditorSelection.cursor(11), EditorSelection.cursor(27)]),
+				["github://a", "github://b"],
+			);
+
+			pressKey(view, "Backspace");
+
+			expect(view.state.doc.toString()).toBe(" and ");
+			expect(view.state.selection.ranges.map((range) => range.head)).toEqual([0, 5]);
+			view.destroy();
+		});
+
+		it("should delete resources the selection partly covers", () => {
+			const view = createView("Check @github://repo here", EditorSelection.single(3, 10));
+
+			pressKey(view, "Backspace");
+
+			expect(view.state.doc.toString()).toBe("Che here");
+			view.destroy();
+		});
+
+		it("should cut resources the cut text partly covers", () => {
+			const state = createStateWithResources("Check @github://repo here", ["github://repo"]);
+
+			const tr = state.update({
+				changes: { from: 3, to: 10 },
+				annotations: [Transaction.userEvent.of("delete.cut")],
+			});
+
+			expect(tr.newDoc.toString()).toBe("Che here");
+		});
+
+		it("should copy the whole resources a cut deletes", () => {
+			const view = createView("Check @github://repo here", EditorSelection.single(3, 10));
+			const clipboard = new Map<string, string>();
+			const event = new Event("cut", { bubbles: true, cancelable: true });
+			Object.defineProperty(event, "clipboardData", {
+				value: {
+					clearData: () => clipboard.clear(),
+					setData: (type: string, text: string) => clipboard.set(type, text),
+				},
+			});
+
+			view.contentDOM.dispatchEvent(event);
+
+			expect(clipboard.get("text/plain")).toBe("ck @github://repo");
+			expect(view.state.doc.toString()).toBe("Che here");
+			view.destroy();
+		});
+	});
+
+	describe("prompt commands", () => {
+		it("should delete the entire command when backspacing at its end", () => {
+			const view = createView("Run /read_table users", 15);
+
+			pressKey(view, "Backspace");
+
+			expect(view.state.doc.toString()).toBe("Run  users");
+			expect(view.state.selection.main.anchor).toBe(4);
+			view.destroy();
+		});
+
+		it("should delete the entire command when deleting forward at its start", () => {
+			const view = createView("Run /read_table users", 4);
+
+			pressKey(view, "Delete");
+
+			expect(view.state.doc.toString()).toBe("Run  users");
+			view.destroy();
+		});
+
+		it("should not delete commands of unknown prompts", () => {
+			const view = createView("Run /unknown users", 12);
+
+			pressKey(view, "Backspace");
+
+			expect(view.state.doc.toString()).toBe("Run /unknow users");
+			view.destroy();
+		});
+	});
+
 	describe.skip("cursor movement", () => {
 		it("should jump to start of resource when moving left from inside", () => {
 			const state = createStateWithResources("Check @github://repo here", ["github://repo"]);
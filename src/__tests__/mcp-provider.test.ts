@@ -1,11 +1,13 @@
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { type Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { MCPResourceProvider } from "../mcp/mcp-provider.js";
+import { matchAllURIs } from "../utils.js";
 
 // Mock the MCP SDK
 vi.mock("@modelcontextprotocol/sdk/client/index.js", () => ({
 	Client: vi.fn().mockImplementation(() => ({
 		connect: vi.fn().mockResolvedValue(undefined),
+		setNotificationHandler: vi.fn(),
 		request: vi.fn(),
 	})),
 }));
@@ -63,6 +65,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockRejectedValue(new Error("Connection failed")),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn(),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -91,6 +94,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockResolvedValue(mockResources),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -112,6 +116,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockResolvedValue({ resources: [] }),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -126,6 +131,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockRejectedValue(new Error("API Error")),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -136,11 +142,43 @@ describe("MCPResourceProvider", () => {
 		});
 	});
 
+	describe("readResourceContents", () => {
+		it("should keep the MIME type of text and blob parts", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue({
+					contents: [
+						{ uri: "file://logo.png", mimeType: "image/png", blob: "iVBORw0KGgo=" },
+						{ uri: "file://notes.md", mimeType: "text/markdown", text: "# Notes" },
+					],
+				}),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const signal = new AbortController().signal;
+			const contents = await provider.readResourceContents("file://logo.png", signal);
+
+			expect(contents).toEqual([
+				{ uri: "file://logo.png", mimeType: "image/png", blob: "iVBORw0KGgo=" },
+				{ uri: "file://notes.md", mimeType: "text/markdown", text: "# Notes" },
+			]);
+			expect(mockClient.request).toHaveBeenCalledWith(
+				{ method: "resources/read", params: { uri: "file://logo.png" } },
+				expect.anything(),
+				{ signal },
+			);
+		});
+	});
+
 	describe("getResource", () => {
 		it("should throw error when client is not connected", async () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockRejectedValue(new Error("Connection failed")),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn(),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -176,6 +214,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi
 					.fn()
 					.mockResolvedValueOnce(mockListResponse) // First call for list
@@ -189,7 +228,9 @@ describe("MCPResourceProvider", () => {
 			expect(resource).toMatchObject({
 				uri: "file://test.txt",
 				mimeType: "text/plain",
-				data: "Hello, world!",
+				data: [
+					{ type: "text", uri: "file://test.txt", mimeType: "text/plain", text: "Hello, world!" },
+				],
 			});
 		});
 
@@ -209,7 +250,7 @@ describe("MCPResourceProvider", () => {
 					{
 						uri: "file://test.bin",
 						mimeType: "application/octet-stream",
-						blob: "base64encodeddata",
+						blob: "AAEC/w==",
 					},
 				],
 			};
@@ -217,6 +258,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi
 					.fn()
 					.mockResolvedValueOnce(mockListResponse) // First call for list
@@ -230,7 +272,14 @@ describe("MCPResourceProvider", () => {
 			expect(resource).toMatchObject({
 				uri: "file://test.bin",
 				mimeType: "application/octet-stream",
-				data: "base64encodeddata",
+				data: [
+					{
+						type: "blob",
+						uri: "file://test.bin",
+						mimeType: "application/octet-stream",
+						bytes: new Uint8Array([0, 1, 2, 255]),
+					},
+				],
 			});
 		});
 
@@ -242,6 +291,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockResolvedValueOnce(mockListResponse), // Only list call
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -256,6 +306,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockRejectedValue(new Error("Resource not found")),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -268,12 +319,570 @@ describe("MCPResourceProvider", () => {
 		});
 	});
 
+	describe("pagination", () => {
+		it("should follow nextCursor when listing resources", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi
+					.fn()
+					.mockResolvedValueOnce({
+						resources: [{ uri: "file://1.txt", name: "1.txt" }],
+						nextCursor: "page-2",
+					})
+					.mockResolvedValueOnce({ resources: [{ uri: "file://2.txt", name: "2.txt" }] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const resources = await provider.getResources();
+
+			expect(resources.map((r) => r.uri)).toEqual(["file://1.txt", "file://2.txt"]);
+			expect(mockClient.request).toHaveBeenNthCalledWith(
+				1,
+				{ method: "resources/list" },
+				expect.anything(),
+				{ signal: undefined },
+			);
+			expect(mockClient.request).toHaveBeenNthCalledWith(
+				2,
+				{ method: "resources/list", params: { cursor: "page-2" } },
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+
+		it("should stop after the configured page cap", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue({
+					resources: [{ uri: "file://loop.txt", name: "loop.txt" }],
+					nextCursor: "again",
+				}),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger, {
+				maxPages: 3,
+			});
+			const resources = await provider.getResources();
+
+			expect(resources).toHaveLength(3);
+			expect(mockClient.request).toHaveBeenCalledTimes(3);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				"Stopped following resources/list after 3 pages",
+			);
+		});
+
+		it("should yield resource pages as they arrive", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi
+					.fn()
+					.mockResolvedValueOnce({
+						resources: [{ uri: "file://1.txt", name: "1.txt" }],
+						nextCursor: "page-2",
+					})
+					.mockResolvedValueOnce({ resources: [{ uri: "file://2.txt", name: "2.txt" }] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const pages: string[][] = [];
+			for await (const page of provider.getResourcePages()) {
+				pages.push(page.map((r) => r.uri));
+			}
+
+			expect(pages).toEqual([["file://1.txt"], ["file://2.txt"]]);
+		});
+
+		it("should find a resource on a later page", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi
+					.fn()
+					.mockResolvedValueOnce({
+						resources: [{ uri: "file://1.txt", name: "1.txt" }],
+						nextCursor: "page-2",
+					})
+					.mockResolvedValueOnce({ resources: [{ uri: "file://2.txt", name: "2.txt" }] })
+					.mockResolvedValueOnce({ contents: [{ uri: "file://2.txt", text: "two" }] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const resource = await provider.getResource("file://2.txt");
+
+			expect(resource).toMatchObject({
+				uri: "file://2.txt",
+				data: [{ type: "text", uri: "file://2.txt", text: "two" }],
+			});
+		});
+
+		it("should follow nextCursor when listing prompts", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi
+					.fn()
+					.mockResolvedValueOnce({ prompts: [{ name: "prompt1" }], nextCursor: "page-2" })
+					.mockResolvedValueOnce({ prompts: [{ name: "prompt2" }] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const prompts = await provider.getPrompts();
+
+			expect(prompts.map((p) => p.name)).toEqual(["prompt1", "prompt2"]);
+			expect(mockClient.request).toHaveBeenLastCalledWith(
+				{ method: "prompts/list", params: { cursor: "page-2" } },
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+	});
+
+	describe("caching", () => {
+		const listResponse = {
+			resources: [{ uri: "file://test.txt", name: "test.txt" }],
+		};
+
+		it("should serve repeated listings from the cache", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue(listResponse),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await provider.getResources();
+			const resources = await provider.getResources();
+
+			expect(resources).toHaveLength(1);
+			expect(mockClient.request).toHaveBeenCalledTimes(1);
+		});
+
+		it("should look up a single resource in the cache", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi
+					.fn()
+					.mockResolvedValueOnce(listResponse)
+					.mockResolvedValueOnce({ contents: [{ uri: "file://test.txt", text: "Hello" }] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await provider.getResources();
+			const resource = await provider.getResource("file://test.txt");
+
+			expect(resource).toMatchObject({
+				uri: "file://test.txt",
+				data: [{ type: "text", uri: "file://test.txt", text: "Hello" }],
+			});
+			expect(mockClient.request).toHaveBeenCalledTimes(2);
+			expect(mockClient.request).toHaveBeenLastCalledWith(
+				{ method: "resources/read", params: { uri: "file://test.txt" } },
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+
+		it("should expire cached listings after the TTL", async () => {
+			vi.useFakeTimers();
+			try {
+				const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+				const mockClient = {
+					connect: vi.fn().mockResolvedValue(undefined),
+					setNotificationHandler: vi.fn(),
+					request: vi.fn().mockResolvedValue(listResponse),
+				};
+				vi.mocked(Client).mockReturnValue(mockClient as any);
+
+				const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger, {
+					cacheTtl: 1000,
+				});
+				await provider.getResources();
+				vi.advanceTimersByTime(500);
+				await provider.getResources();
+				expect(mockClient.request).toHaveBeenCalledTimes(1);
+
+				vi.advanceTimersByTime(500);
+				await provider.getResources();
+				expect(mockClient.request).toHaveBeenCalledTimes(2);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it("should not cache when the TTL is 0", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue(listResponse),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger, {
+				cacheTtl: 0,
+			});
+			await provider.getResources();
+			await provider.getResources();
+
+			expect(mockClient.request).toHaveBeenCalledTimes(2);
+		});
+
+		it("should refetch after invalidate()", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue(listResponse),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await provider.getResources();
+			provider.invalidate();
+			await provider.getResources();
+
+			expect(mockClient.request).toHaveBeenCalledTimes(2);
+		});
+
+		it("should invalidate on notifications/resources/list_changed", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const { ResourceListChangedNotificationSchema } = await import(
+				"@modelcontextprotocol/sdk/types.js"
+			);
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue(listResponse),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await provider.getResources();
+
+			expect(mockClient.setNotificationHandler).toHaveBeenCalledWith(
+				ResourceListChangedNotificationSchema,
+				expect.any(Function),
+			);
+			const onListChanged = mockClient.setNotificationHandler.mock.calls[0][1];
+			await onListChanged({ method: "notifications/resources/list_changed" });
+			await provider.getResources();
+
+			expect(mockClient.request).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("getResourceTemplates", () => {
+		it("should return resource templates when client is connected", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue({
+					resourceTemplates: [
+						{
+							uriTemplate: "db://tables/{table}/rows/{id}",
+							name: "Table row",
+							description: "A row of a table",
+						},
+					],
+				}),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const templates = await provider.getResourceTemplates();
+
+			expect(templates).toEqual([
+				{
+					type: "db",
+					uriTemplate: "db://tables/{table}/rows/{id}",
+					name: "Table row",
+					description: "A row of a table",
+					mimeType: undefined,
+				},
+			]);
+			expect(mockClient.request).toHaveBeenCalledWith(
+				{ method: "resources/templates/list" },
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+
+		it("should return no templates when the server does not support them", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockRejectedValue(new Error("Method not found")),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+
+			await expect(provider.getResourceTemplates()).resolves.toEqual([]);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				"Could not list MCP resource templates:",
+				expect.any(Error),
+			);
+		});
+	});
+
+	describe("completeArgument", () => {
+		it("should request argument completions for a reference", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockResolvedValue({ completion: { values: ["users", "user_roles"] } }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const values = await provider.completeArgument(
+				{ type: "ref/prompt", name: "read_table" },
+				{ name: "table_name", value: "us" },
+			);
+
+			expect(values).toEqual(["users", "user_roles"]);
+			expect(mockClient.request).toHaveBeenCalledWith(
+				{
+					method: "completion/complete",
+					params: {
+						ref: { type: "ref/prompt", name: "read_table" },
+						argument: { name: "table_name", value: "us" },
+					},
+				},
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+
+		it("should pass the signal and rethrow once the request is cancelled", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const controller = new AbortController();
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn(() => {
+					controller.abort();
+					return Promise.reject(new Error("Request cancelled"));
+				}),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await expect(
+				provider.completeArgument(
+					{ type: "ref/prompt", name: "read_table" },
+					{ name: "table_name", value: "us" },
+					controller.signal,
+				),
+			).rejects.toThrow("Request cancelled");
+
+			expect(mockClient.request).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+				signal: controller.signal,
+			});
+			expect(mockLogger.warn).not.toHaveBeenCalled();
+		});
+
+		it("should return no values when the server does not support completion", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn().mockRejectedValue(new Error("Method not found")),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const values = await provider.completeArgument(
+				{ type: "ref/resource", uri: "db://tables/{table}" },
+				{ name: "table", value: "" },
+			);
+
+			expect(values).toEqual([]);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				"Could not complete argument table:",
+				expect.any(Error),
+			);
+		});
+
+		it("should throw error when client is not connected", async () => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockRejectedValue(new Error("Connection failed")),
+				setNotificationHandler: vi.fn(),
+				request: vi.fn(),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+
+			await expect(
+				provider.completeArgument(
+					{ type: "ref/prompt", name: "read_table" },
+					{ name: "table_name", value: "" },
+				),
+			).rejects.toThrow("MCP client is not connected");
+		});
+	});
+
+	describe("searchResources", () => {
+		async function createSearchProvider(
+			search: ConstructorParameters<typeof MCPResourceProvider>[3],
+			request: Mock,
+		) {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				request,
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+			return new MCPResourceProvider(mockTransport, undefined, mockLogger, search);
+		}
+
+		it("should search through template argument completion", async () => {
+			const request = vi.fn().mockImplementation(async ({ method }) => {
+				if (method === "completion/complete") {
+					return { completion: { values: ["users", "user_roles", "user_logs"] } };
+				}
+				return {
+					resourceTemplates: [{ uriTemplate: "db://tables/{table}", name: "Table" }],
+				};
+			});
+			const provider = await createSearchProvider(
+				{ search: { template: "db://tables/{table}", argument: "table" } },
+				request,
+			);
+			const signal = new AbortController().signal;
+
+			const resources = await provider.searchResources("us", { limit: 2, signal });
+
+			expect(provider.supportsSearch()).toBe(true);
+			expect(resources.map(({ uri, name }) => ({ uri, name }))).toEqual([
+				{ uri: "db://tables/users", name: "Table: users" },
+				{ uri: "db://tables/user_roles", name: "Table: user_roles" },
+			]);
+			expect(request).toHaveBeenCalledWith(
+				{
+					method: "completion/complete",
+					params: {
+						ref: { type: "ref/resource", uri: "db://tables/{table}" },
+						argument: { name: "table", value: "us" },
+					},
+				},
+				expect.anything(),
+				{ signal },
+			);
+		});
+
+		it("should search with templates whose results can be mentioned", async () => {
+			const request = vi.fn().mockImplementation(async ({ method }) => {
+				if (method === "completion/complete") {
+					return { completion: { values: ["guides/setup.md"] } };
+				}
+				return { resourceTemplates: [{ uriTemplate: "docs://{path}", name: "Docs" }] };
+			});
+			const provider = await createSearchProvider(
+				{ search: { template: "docs://{path}", argument: "path" } },
+				request,
+			);
+
+			const [resource] = await provider.searchResources("setup");
+			const mention = `@${resource?.uri}`;
+
+			expect(resource?.uri).toBe("docs://guides%2Fsetup.md");
+			expect(Array.from(matchAllURIs(`See ${mention} first`), (match) => match[0])).toEqual([
+				mention,
+			]);
+		});
+
+		it("should search with a tool returning resources", async () => {
+			const request = vi.fn().mockResolvedValue({
+				content: [
+					{ type: "resource", resource: { uri: "file:///docs/readme.md", text: "# Readme" } },
+					{
+						type: "text",
+						text: JSON.stringify([{ uri: "file:///docs/guide.md", name: "Guide" }]),
+					},
+					{ type: "text", text: "2 results" },
+				],
+			});
+			const provider = await createSearchProvider({ search: { tool: "find_files" } }, request);
+
+			const resources = await provider.searchResources("docs");
+
+			expect(resources.map(({ uri, name }) => ({ uri, name }))).toEqual([
+				{ uri: "file:///docs/readme.md", name: "readme.md" },
+				{ uri: "file:///docs/guide.md", name: "Guide" },
+			]);
+			expect(request).toHaveBeenCalledWith(
+				{ method: "tools/call", params: { name: "find_files", arguments: { query: "docs" } } },
+				expect.anything(),
+				{ signal: undefined },
+			);
+		});
+
+		it("should return no resources when the search fails", async () => {
+			const request = vi.fn().mockRejectedValue(new Error("Tool not found"));
+			const provider = await createSearchProvider({ search: { tool: "find_files" } }, request);
+
+			await expect(provider.searchResources("docs")).resolves.toEqual([]);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				"Could not search MCP resources:",
+				expect.any(Error),
+			);
+		});
+
+		it("should reject aborted searches", async () => {
+			const controller = new AbortController();
+			const request = vi.fn().mockImplementation(async () => {
+				controller.abort();
+				throw new Error("Aborted");
+			});
+			const provider = await createSearchProvider({ search: { tool: "find_files" } }, request);
+
+			await expect(provider.searchResources("docs", { signal: controller.signal })).rejects.toThrow(
+				"Aborted",
+			);
+		});
+
+		it("should require a search configuration", async () => {
+			const provider = await createSearchProvider({}, vi.fn());
+
+			expect(provider.supportsSearch()).toBe(false);
+			await expect(provider.searchResources("docs")).rejects.toThrow(
+				"Resource search is not configured",
+			);
+		});
+	});
+
 	describe("connection handling", () => {
 		it("should cache connection promise", async () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const connectSpy = vi.fn().mockResolvedValue(undefined);
 			const mockClient = {
 				connect: connectSpy,
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockResolvedValue({ resources: [] }),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -295,6 +904,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockRejectedValue(new Error("Connection failed")),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn(),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -314,6 +924,7 @@ describe("MCPResourceProvider", () => {
 			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
 			const mockClient = {
 				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
 				request: vi.fn().mockResolvedValue({ invalid: "response" }),
 			};
 			vi.mocked(Client).mockReturnValue(mockClient as any);
@@ -324,4 +935,193 @@ describe("MCPResourceProvider", () => {
 			await expect(provider.getResources()).resolves.toBeDefined();
 		});
 	});
+	describe("subscriptions", () => {
+		const createSubscribingClient = async (subscribe: boolean) => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient = {
+				connect: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				getServerCapabilities: vi.fn().mockReturnValue({ resources: { subscribe } }),
+				request: vi.fn().mockResolvedValue({}),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+			return mockClient;
+		};
+
+		it("should report whether the server supports subscriptions", async () => {
+			await createSubscribingClient(false);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+
+			await expect(provider.supportsSubscriptions()).resolves.toBe(false);
+		});
+
+		it("should subscribe once per uri and unsubscribe after the last release", async () => {
+			const mockClient = await createSubscribingClient(true);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+
+			await provider.subscribe("file:///a.txt");
+			await provider.subscribe("file:///a.txt");
+			expect(mockClient.request).toHaveBeenCalledTimes(1);
+			expect(mockClient.request).toHaveBeenCalledWith(
+				{ method: "resources/subscribe", params: { uri: "file:///a.txt" } },
+				expect.anything(),
+			);
+
+			await provider.unsubscribe("file:///a.txt");
+			expect(mockClient.request).toHaveBeenCalledTimes(1);
+			await provider.unsubscribe("file:///a.txt");
+			expect(mockClient.request).toHaveBeenLastCalledWith(
+				{ method: "resources/unsubscribe", params: { uri: "file:///a.txt" } },
+				expect.anything(),
+			);
+		});
+
+		it("should not subscribe when the server does not support it", async () => {
+			const mockClient = await createSubscribingClient(false);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+
+			await provider.subscribe("file:///a.txt");
+			expect(mockClient.request).not.toHaveBeenCalled();
+		});
+
+		it("should notify listeners of resources/updated notifications", async () => {
+			const mockClient = await createSubscribingClient(true);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const listener = vi.fn();
+			const stop = provider.onResourceUpdated(listener);
+
+			const onUpdated = mockClient.setNotificationHandler.mock.calls[1][1];
+			await onUpdated({
+				method: "notifications/resources/updated",
+				params: { uri: "file:///a.txt" },
+			});
+			expect(listener).toHaveBeenCalledWith("file:///a.txt");
+
+			stop();
+			await onUpdated({
+				method: "notifications/resources/updated",
+				params: { uri: "file:///a.txt" },
+			});
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+	});
+	describe("reconnection", () => {
+		const createReconnectingClient = async (connect: Mock) => {
+			const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+			const mockClient: Record<string, unknown> & { onclose?: () => void } = {
+				connect,
+				close: vi.fn().mockResolvedValue(undefined),
+				setNotificationHandler: vi.fn(),
+				getServerCapabilities: vi.fn().mockReturnValue({}),
+				request: vi.fn().mockResolvedValue({ resources: [] }),
+			};
+			vi.mocked(Client).mockReturnValue(mockClient as any);
+			return mockClient;
+		};
+
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should track the connection state", async () => {
+			await createReconnectingClient(vi.fn().mockResolvedValue(undefined));
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			const listener = vi.fn();
+			provider.onConnectionStateChange(listener);
+
+			expect(provider.getConnectionState()).toEqual({ status: "connecting" });
+			await provider.isConnected();
+			expect(provider.getConnectionState()).toEqual({ status: "connected" });
+			expect(listener).toHaveBeenCalledWith({ status: "connected" });
+		});
+
+		it("should retry failed connections with exponential backoff", async () => {
+			const error = new Error("Connection failed");
+			const connect = vi
+				.fn()
+				.mockRejectedValueOnce(error)
+				.mockRejectedValueOnce(error)
+				.mockResolvedValue(undefined);
+			await createReconnectingClient(connect);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger, {
+				reconnect: { initialDelay: 100 },
+			});
+
+			await expect(provider.isConnected()).resolves.toBe(false);
+			expect(provider.getConnectionState()).toEqual({ status: "error", error });
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(connect).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(199);
+			expect(connect).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(connect).toHaveBeenCalledTimes(3);
+
+			await expect(provider.isConnected()).resolves.toBe(true);
+			expect(provider.getConnectionState()).toEqual({ status: "connected" });
+		});
+
+		it("should give up after maxAttempts", async () => {
+			const connect = vi.fn().mockRejectedValue(new Error("Connection failed"));
+			await createReconnectingClient(connect);
+			new MCPResourceProvider(mockTransport, undefined, mockLogger, {
+				reconnect: { initialDelay: 100, maxAttempts: 1 },
+			});
+
+			await vi.advanceTimersByTimeAsync(10_000);
+			expect(connect).toHaveBeenCalledTimes(2);
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				"Gave up reconnecting to MCP server after 1 attempts",
+			);
+		});
+
+		it("should not reconnect when disabled", async () => {
+			const connect = vi.fn().mockRejectedValue(new Error("Connection failed"));
+			await createReconnectingClient(connect);
+			new MCPResourceProvider(mockTransport, undefined, mockLogger, { reconnect: false });
+
+			await vi.advanceTimersByTimeAsync(60_000);
+			expect(connect).toHaveBeenCalledTimes(1);
+		});
+
+		it("should reconnect with a fresh transport when the connection closes", async () => {
+			const connect = vi.fn().mockResolvedValue(undefined);
+			const mockClient = await createReconnectingClient(connect);
+			const createTransport = vi.fn(createMockTransport);
+			const provider = new MCPResourceProvider(createTransport, undefined, mockLogger, {
+				reconnect: { initialDelay: 100 },
+			});
+			await provider.getResources();
+
+			mockClient.onclose?.();
+			expect(provider.getConnectionState()).toEqual({ status: "disconnected" });
+			await expect(provider.isConnected()).resolves.toBe(false);
+
+			await vi.advanceTimersByTimeAsync(100);
+			await expect(provider.isConnected()).resolves.toBe(true);
+			expect(createTransport).toHaveBeenCalledTimes(2);
+
+			// Listings are fetched again from the new connection
+			await provider.getResources();
+			expect(mockClient.request).toHaveBeenCalledTimes(2);
+		});
+
+		it("should swap the transport at runtime", async () => {
+			const connect = vi.fn().mockResolvedValue(undefined);
+			const mockClient = await createReconnectingClient(connect);
+			const provider = new MCPResourceProvider(mockTransport, undefined, mockLogger);
+			await provider.isConnected();
+
+			const nextTransport = createMockTransport();
+			await expect(provider.setTransport(nextTransport)).resolves.toBe(true);
+
+			expect(mockClient.close).toHaveBeenCalled();
+			expect(connect).toHaveBeenLastCalledWith(nextTransport);
+			expect(provider.getConnectionState()).toEqual({ status: "connected" });
+		});
+	});
 });
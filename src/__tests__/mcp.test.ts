@@ -7,11 +7,24 @@ import type {
 	InitializeResult,
 	JSONRPCMessage,
 	JSONRPCRequest,
+	Prompt,
+	PromptMessage,
+	ResourceTemplate,
+	Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import { type Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { mcpExtension } from "../mcp";
+import type { ApprovalPolicy } from "../mcp/approval";
 import { extractResources } from "../resources/extract";
-import { resourcesField, updateResources } from "../state";
+import {
+	connectionStateField,
+	mcpProviderField,
+	promptsField,
+	resourcesField,
+	triggersField,
+	updatePrompts,
+	updateResources,
+} from "../state";
 
 class MockTransport implements Transport {
 	onclose?: () => void;
@@ -23,16 +36,28 @@ class MockTransport implements Transport {
 		{ name: "test2", uri: "test://2", type: "text" },
 	];
 
-	mockPrompts = [
+	mockResourceTemplates: ResourceTemplate[] = [];
+
+	mockPrompts: Prompt[] = [
 		{ name: "prompt1", description: "Test prompt 1" },
 		{ name: "prompt2", description: "Test prompt 2" },
 	];
 
+	mockCompletions: Record<string, string[]> = {};
+
+	mockTools: Tool[] = [];
+	mockPromptMessages: PromptMessage[] = [
+		{ role: "user", content: { type: "text", text: "Hello" } },
+	];
+
+	requests: JSONRPCRequest[] = [];
+
 	async start(): Promise<void> {}
 
 	async send(message: JSONRPCMessage): Promise<void> {
 		if (!("method" in message)) return;
 		const req = message as JSONRPCRequest;
+		this.requests.push(req);
 
 		if (req.method === "initialize") {
 			setTimeout(() => {
@@ -69,6 +94,18 @@ class MockTransport implements Transport {
 			}, 0);
 		}
 
+		if (req.method === "resources/templates/list") {
+			setTimeout(() => {
+				this.onmessage?.({
+					jsonrpc: "2.0",
+					id: req.id,
+					result: {
+						resourceTemplates: this.mockResourceTemplates,
+					},
+				});
+			}, 0);
+		}
+
 		if (req.method === "prompts/list") {
 			setTimeout(() => {
 				this.onmessage?.({
@@ -80,6 +117,59 @@ class MockTransport implements Transport {
 				});
 			}, 0);
 		}
+
+		if (req.method === "completion/complete") {
+			const { argument } = req.params as { argument: { name: string; value: string } };
+			const values = (this.mockCompletions[argument.name] ?? []).filter((value) =>
+				value.startsWith(argument.value),
+			);
+			setTimeout(() => {
+				this.onmessage?.({
+					jsonrpc: "2.0",
+					id: req.id,
+					result: {
+						completion: { values },
+					},
+				});
+			}, 0);
+		}
+
+		if (req.method === "tools/list") {
+			setTimeout(() => {
+				this.onmessage?.({
+					jsonrpc: "2.0",
+					id: req.id,
+					result: {
+						tools: this.mockTools,
+					},
+				});
+			}, 0);
+		}
+
+		if (req.method === "tools/call") {
+			const { name } = req.params as { name: string };
+			setTimeout(() => {
+				this.onmessage?.({
+					jsonrpc: "2.0",
+					id: req.id,
+					result: {
+						content: [{ type: "text", text: `Result of ${name}` }],
+					},
+				});
+			}, 0);
+		}
+
+		if (req.method === "prompts/get") {
+			setTimeout(() => {
+				this.onmessage?.({
+					jsonrpc: "2.0",
+					id: req.id,
+					result: {
+						messages: this.mockPromptMessages,
+					},
+				});
+			}, 0);
+		}
 	}
 
 	async close(): Promise<void> {
@@ -87,6 +177,14 @@ class MockTransport implements Transport {
 	}
 }
 
+async function clickApproval(view: EditorView, button: "approve" | "deny") {
+	const selector = `.cm-mcp-approval-${button}`;
+	await vi.waitFor(() => {
+		expect(view.dom.querySelector(selector)).toBeTruthy();
+	});
+	view.dom.querySelector<HTMLButtonElement>(selector)?.click();
+}
+
 describe("mcpExtension", () => {
 	let transport: MockTransport;
 	let view: EditorView;
@@ -129,6 +227,35 @@ describe("mcpExtension", () => {
 		expect(mockLogger.log).toHaveBeenCalledWith("Connected to MCP server");
 	});
 
+	it("should expose its provider through mcpProviderField", () => {
+		const provider = view.state.field(mcpProviderField);
+		expect(provider).toBeTruthy();
+		expect(typeof provider?.invalidate).toBe("function");
+	});
+
+	it("should track the connection state in connectionStateField", async () => {
+		expect(view.state.field(connectionStateField).get("default")).toEqual({
+			status: "connecting",
+		});
+
+		await vi.waitFor(() => {
+			expect(view.state.field(connectionStateField).get("default")).toEqual({
+				status: "connected",
+			});
+		});
+	});
+
+	it("should swap the transport without recreating the editor", async () => {
+		const provider = view.state.field(mcpProviderField);
+		const next = new MockTransport();
+		next.mockResources = [{ name: "next", uri: "next://1", type: "text" }];
+
+		await expect(provider?.setTransport(next)).resolves.toBe(true);
+		const resources = await provider?.getResources();
+		expect(resources?.map((resource) => resource.uri)).toEqual(["next://1"]);
+		expect(view.state.field(connectionStateField).get("default")?.status).toBe("connected");
+	});
+
 	it("should provide completions when typing @", async () => {
 		const context = new CompletionContext(state, 7, false);
 		const handler = getCompletionHandler(state);
@@ -154,6 +281,19 @@ describe("mcpExtension", () => {
 		expect(completions).toBeNull();
 	});
 
+	it("should not trigger inside words with the trigger guard", async () => {
+		const extension = mcpExtension({ transport, logger: mockLogger, triggerGuard: true });
+		const state = EditorState.create({ doc: "Mail me@ or @", extensions: [extension] });
+		// biome-ignore lint/suspicious/noExplicitAny: tests
+		const handler = (extension as any)[2][2].value.override[0];
+
+		expect(await handler(new CompletionContext(state, 8, false))).toBeNull();
+		expect(transport.requests.some((req) => req.method === "resources/list")).toBe(false);
+
+		const completions = await handler(new CompletionContext(state, 13, false));
+		expect(completions?.options).toHaveLength(2);
+	});
+
 	it.skip("should show tooltip when hovering over @mention", async () => {
 		const mockTooltip: Tooltip = {
 			pos: 6,
@@ -255,7 +395,740 @@ describe("mcpExtension", () => {
 		expect(completions?.options[1].boost).toBe(0);
 	});
 
-	// TODO: test prompt completions
+	describe("resource templates", () => {
+		const rowTemplate: ResourceTemplate = {
+			name: "Table row",
+			uriTemplate: "db://tables/{table}/rows/{id}",
+			description: "A row of a table",
+		};
+
+		it("should list resource templates alongside resources", async () => {
+			transport.mockResourceTemplates = [rowTemplate];
+
+			const context = new CompletionContext(state, 7, false);
+			const handler = getCompletionHandler(state);
+			const completions = await handler(context);
+
+			expect(completions?.options).toHaveLength(3);
+			// Ranked first by its description boost
+			expect(completions?.options[0]).toMatchObject({
+				label: "@Table row",
+				detail: "db://tables/{table}/rows/{id}",
+				info: "A row of a table",
+			});
+		});
+
+		it("should complete template variables with completion/complete", async () => {
+			transport.mockResourceTemplates = [rowTemplate];
+			transport.mockCompletions = { table: ["users", "orders"] };
+
+			const state = EditorState.create({
+				doc: "Hello @db://tables/",
+				extensions: [mcpExtension({ transport, logger: mockLogger })],
+			});
+			const context = new CompletionContext(state, 19, false);
+			const handler = getCompletionHandler(state);
+			const completions = await handler(context);
+
+			const request = transport.requests.find((req) => req.method === "completion/complete");
+			expect(request?.params).toEqual({
+				ref: { type: "ref/resource", uri: "db://tables/{table}/rows/{id}" },
+				argument: { name: "table", value: "" },
+			});
+			expect(completions?.from).toBe(19);
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["table", "users", "orders"]);
+		});
+
+		it("should record the expanded URI as a resource once filled in", async () => {
+			transport.mockResourceTemplates = [rowTemplate];
+
+			const doc = "Hello @db://tables/users/rows/42";
+			const view = new EditorView({
+				state: EditorState.create({
+					doc,
+					extensions: [mcpExtension({ transport, logger: mockLogger })],
+				}),
+				parent: document.createElement("div"),
+			});
+			const context = new CompletionContext(view.state, doc.length, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			expect(completions?.from).toBe(30);
+			const option = completions?.options[0];
+			expect(option.displayLabel).toBe("id: 42");
+			option.apply(view, option, completions.from, doc.length);
+
+			expect(view.state.doc.toString()).toBe("Hello @db://tables/users/rows/42 ");
+			expect(view.state.field(resourcesField).get("db://tables/users/rows/42")).toMatchObject({
+				type: "db",
+				name: "Table row: users, 42",
+				description: "A row of a table",
+			});
+			expect(extractResources(view)).toHaveLength(1);
+			view.destroy();
+		});
+
+		it("should not trigger prompt completions inside a partial URI", async () => {
+			const state = EditorState.create({
+				doc: "Hello @file://docs/REA",
+				extensions: [mcpExtension({ transport, logger: mockLogger })],
+			});
+			const context = new CompletionContext(state, 22, false);
+			const handler = getCompletionHandler(state);
+			const completions = await handler(context);
+
+			expect(completions).toBeNull();
+			expect(transport.requests.some((req) => req.method === "prompts/list")).toBe(false);
+		});
+	});
+
+	describe("prompts with arguments", () => {
+		const readTable: Prompt = {
+			name: "read_table",
+			description: "Read a table",
+			arguments: [
+				{ name: "table_name", description: "Table to read", required: true },
+				{ name: "column_name", description: "Column to read" },
+			],
+		};
+
+		function createPromptView(doc: string, onPromptSubmit = vi.fn()) {
+			const view = new EditorView({
+				state: EditorState.create({
+					doc,
+					extensions: [mcpExtension({ transport, logger: mockLogger, onPromptSubmit })],
+				}),
+				parent: document.createElement("div"),
+			});
+			view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+			return view;
+		}
+
+		it("should list prompts with arguments and their signature", async () => {
+			transport.mockPrompts = [{ name: "prompt1" }, readTable];
+
+			const view = createPromptView("Hello /");
+			const context = new CompletionContext(view.state, 7, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			expect(completions?.options).toHaveLength(2);
+			expect(completions?.options[1].label).toBe("/read_table");
+			expect(completions?.options[1].displayLabel).toBe("read_table [table_name] [column_name?]");
+			expect(view.state.field(promptsField).get("read_table")).toEqual(readTable);
+		});
+
+		it("should list prompts after punctuation", async () => {
+			transport.mockPrompts = [readTable];
+
+			const view = createPromptView("Hello (/rea");
+			const context = new CompletionContext(view.state, 11, false, view);
+			const completions = await getCompletionHandler(view.state)(context);
+
+			expect(completions?.from).toBe(7);
+			expect(completions?.options.map((option) => option.label)).toEqual(["/read_table"]);
+		});
+
+		it("should prompt for the next argument", async () => {
+			const view = createPromptView("/read_table ");
+			const context = new CompletionContext(view.state, 12, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			expect(completions?.from).toBe(12);
+			expect(completions?.filter).toBe(false);
+			expect(completions?.options).toHaveLength(1);
+			expect(completions?.options[0]).toMatchObject({
+				label: "table_name",
+				displayLabel: "[table_name]",
+				detail: "required",
+				info: "Table to read",
+			});
+		});
+
+		it("should offer to run once every required argument is set", async () => {
+			const view = createPromptView("/read_table users");
+			const context = new CompletionContext(view.state, 17, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["users", "/read_table"]);
+			expect(completions?.options[1].detail).toBe("table_name=users");
+		});
+
+		it("should call prompts/get with the filled arguments", async () => {
+			const onPromptSubmit = vi.fn();
+			const view = createPromptView("/read_table users id", onPromptSubmit);
+			const context = new CompletionContext(view.state, 20, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "/read_table",
+			);
+			const running = run.apply(view, run, completions.from, 20);
+			expect(view.dom.querySelector(".cm-mcp-approval-title")?.textContent).toBe(
+				"Run prompt read_table?",
+			);
+			await clickApproval(view, "approve");
+			await running;
+
+			const request = transport.requests.find((req) => req.method === "prompts/get");
+			expect(request?.params).toEqual({
+				name: "read_table",
+				arguments: { table_name: "users", column_name: "id" },
+			});
+			expect(onPromptSubmit).toHaveBeenCalledWith(
+				expect.objectContaining({
+					messages: [{ role: "user", content: { type: "text", text: "Hello" } }],
+				}),
+			);
+		});
+
+		it("should replace the command with the prompt messages in insert mode", async () => {
+			transport.mockPromptMessages = [
+				{ role: "user", content: { type: "text", text: "Describe this table:" } },
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "db://tables/users", mimeType: "application/json", text: "{}" },
+					},
+				},
+			];
+			const view = new EditorView({
+				state: EditorState.create({
+					doc: "Ask: /read_table users",
+					extensions: [mcpExtension({ transport, logger: mockLogger })],
+				}),
+				parent: document.createElement("div"),
+			});
+			view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+			const context = new CompletionContext(view.state, 22, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "/read_table",
+			);
+			const running = run.apply(view, run, completions.from, 22);
+			await clickApproval(view, "approve");
+			await running;
+
+			const text = "Ask: Describe this table:\n\n@db://tables/users";
+			expect(view.state.doc.toString()).toBe(text);
+			expect(view.state.selection.main.head).toBe(text.length);
+			expect(view.state.field(resourcesField).get("db://tables/users")).toMatchObject({
+				name: "users",
+				mimeType: "application/json",
+				data: [{ type: "text", uri: "db://tables/users", text: "{}" }],
+			});
+		});
+
+		function createInsertView(doc: string, approvalPolicy?: ApprovalPolicy) {
+			const view = new EditorView({
+				state: EditorState.create({
+					doc,
+					extensions: [mcpExtension({ transport, logger: mockLogger, approvalPolicy })],
+				}),
+				parent: document.createElement("div"),
+			});
+			view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+			return view;
+		}
+
+		it("should insert the messages wherever edits moved the command", async () => {
+			const view = createInsertView("/read_table users");
+			const completions = await getCompletionHandler(view.state)(
+				new CompletionContext(view.state, 17, false, view),
+			);
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "/read_table",
+			);
+			const running = run.apply(view, run, completions.from, 17);
+			view.dispatch({ changes: { from: 0, insert: "Ask: " } });
+			await clickApproval(view, "approve");
+			await running;
+
+			expect(view.state.doc.toString()).toBe("Ask: Hello");
+			view.destroy();
+		});
+
+		it("should drop the messages once the command is deleted", async () => {
+			const view = createInsertView("/read_table users", { autoApprove: ["read_table"] });
+			const completions = await getCompletionHandler(view.state)(
+				new CompletionContext(view.state, 17, false, view),
+			);
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "/read_table",
+			);
+			const running = run.apply(view, run, completions.from, 17);
+			view.dispatch({ changes: { from: 0, to: 17 } });
+			await running;
+
+			expect(transport.requests.some((req) => req.method === "prompts/get")).toBe(true);
+			expect(view.state.doc.toString()).toBe("");
+			expect(mockLogger.log).toHaveBeenCalledWith(
+				"Dropped the messages of prompt read_table, its command was edited",
+			);
+			view.destroy();
+		});
+
+		it("should insert instead of calling onPromptSubmit when asked to", async () => {
+			const onPromptSubmit = vi.fn();
+			const view = new EditorView({
+				state: EditorState.create({
+					doc: "/read_table users",
+					extensions: [
+						mcpExtension({ transport, logger: mockLogger, onPromptSubmit, promptMode: "insert" }),
+					],
+				}),
+				parent: document.createElement("div"),
+			});
+			view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+			const context = new CompletionContext(view.state, 17, false, view);
+			const completions = await getCompletionHandler(view.state)(context);
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "/read_table",
+			);
+			const running = run.apply(view, run, completions.from, 17);
+			await clickApproval(view, "approve");
+			await running;
+
+			expect(onPromptSubmit).not.toHaveBeenCalled();
+			expect(view.state.doc.toString()).toBe("Hello");
+		});
+
+		it("should complete argument values with completion/complete", async () => {
+			transport.mockCompletions = { table_name: ["users", "user_roles", "orders"] };
+
+			const view = createPromptView("/read_table us");
+			const context = new CompletionContext(view.state, 14, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			const request = transport.requests.find((req) => req.method === "completion/complete");
+			expect(request?.params).toEqual({
+				ref: { type: "ref/prompt", name: "read_table" },
+				argument: { name: "table_name", value: "us" },
+			});
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["us", "users", "user_roles", "/read_table"]);
+			expect(completions?.options[1].detail).toBe("table_name");
+		});
+
+		it("should complete argument values containing the prompt trigger", async () => {
+			const view = createPromptView("/read_table src/us");
+			const context = new CompletionContext(view.state, 18, false, view);
+			const completions = await getCompletionHandler(view.state)(context);
+
+			expect(transport.requests.some((req) => req.method === "prompts/list")).toBe(false);
+			const request = transport.requests.find((req) => req.method === "completion/complete");
+			expect(request?.params).toMatchObject({ argument: { name: "table_name", value: "src/us" } });
+			expect(completions?.from).toBe(12);
+		});
+
+		it("should not duplicate a typed value returned by the server", async () => {
+			transport.mockCompletions = { column_name: ["id"] };
+
+			const view = createPromptView("/read_table users id");
+			const context = new CompletionContext(view.state, 20, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["id", "/read_table"]);
+			expect(completions?.options[0].type).toBe("constant");
+		});
+
+		it("should not complete arguments for unknown prompts", async () => {
+			const view = createPromptView("/unknown ");
+			const context = new CompletionContext(view.state, 9, false, view);
+			const handler = getCompletionHandler(view.state);
+			const completions = await handler(context);
+
+			expect(completions).toBeNull();
+		});
+	});
+
+	describe("tools", () => {
+		const search: Tool = {
+			name: "search",
+			description: "Search issues",
+			inputSchema: {
+				type: "object",
+				properties: {
+					query: { type: "string" },
+					state: { type: "string", enum: ["open", "closed"] },
+				},
+				required: ["query"],
+			},
+		};
+
+		function createToolView(doc: string, onToolResult?: Mock) {
+			const extension = mcpExtension({
+				transport,
+				logger: mockLogger,
+				onToolResult,
+				approvalPolicy: { autoApprove: ["ping"] },
+			});
+			const view = new EditorView({
+				state: EditorState.create({ doc, extensions: [extension] }),
+				parent: document.createElement("div"),
+			});
+			// biome-ignore lint/suspicious/noExplicitAny: tests
+			const handler = (extension as any)[2][2].value.override[0];
+			return { view, handler };
+		}
+
+		beforeEach(() => {
+			transport.mockTools = [{ name: "ping", inputSchema: { type: "object" } }, search];
+		});
+
+		it("should list tools with their signature", async () => {
+			const { view, handler } = createToolView("!");
+			const completions = await handler(new CompletionContext(view.state, 1, false, view));
+
+			expect(completions?.options.map((option: { label: string }) => option.label)).toEqual([
+				"!ping",
+				"!search",
+			]);
+			expect(completions?.options[1].displayLabel).toBe("search [query] [state?]");
+			view.destroy();
+		});
+
+		it("should ignore exclamation marks in prose", async () => {
+			const { view, handler } = createToolView("Thanks!");
+			const completions = await handler(new CompletionContext(view.state, 7, false, view));
+
+			expect(completions).toBeNull();
+			expect(transport.requests.some((req) => req.method === "tools/list")).toBe(false);
+			view.destroy();
+		});
+
+		it("should suggest enum values for tool arguments", async () => {
+			const { view, handler } = createToolView("!search bugs ");
+			await handler(new CompletionContext(view.state, 1, true, view));
+			const doc = view.state.doc.toString();
+			const completions = await handler(new CompletionContext(view.state, doc.length, false, view));
+
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["state", "open", "closed", "!search"]);
+			view.destroy();
+		});
+
+		it("should replace the command with the text result", async () => {
+			const { view, handler } = createToolView("Status: !search bugs");
+			await handler(new CompletionContext(view.state, 9, true, view));
+			const completions = await handler(new CompletionContext(view.state, 20, false, view));
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "!search",
+			);
+			const running = run.apply(view, run, completions.from, 20);
+			await clickApproval(view, "approve");
+			await running;
+
+			const request = transport.requests.find((req) => req.method === "tools/call");
+			expect(request?.params).toEqual({ name: "search", arguments: { query: "bugs" } });
+			expect(view.state.doc.toString()).toBe("Status: Result of search");
+			view.destroy();
+		});
+
+		it("should replace the command wherever edits moved it", async () => {
+			const { view, handler } = createToolView("Status: !search bugs");
+			await handler(new CompletionContext(view.state, 9, true, view));
+			const completions = await handler(new CompletionContext(view.state, 20, false, view));
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "!search",
+			);
+			const running = run.apply(view, run, completions.from, 20);
+			view.dispatch({
+				changes: [
+					{ from: 0, insert: "Note: " },
+					{ from: 20, insert: " today" },
+				],
+			});
+			await clickApproval(view, "approve");
+			await running;
+
+			expect(view.state.doc.toString()).toBe("Note: Status: Result of search today");
+			view.destroy();
+		});
+
+		it("should cancel the approval once the command is edited", async () => {
+			const { view, handler } = createToolView("!search bugs");
+			await handler(new CompletionContext(view.state, 1, true, view));
+			const completions = await handler(new CompletionContext(view.state, 12, false, view));
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "!search",
+			);
+			const running = run.apply(view, run, completions.from, 12);
+			await vi.waitFor(() => {
+				expect(view.dom.querySelector(".cm-mcp-approval")).toBeTruthy();
+			});
+			view.dispatch({ changes: { from: 8, to: 12, insert: "issues" } });
+			await running;
+
+			await vi.waitFor(() => {
+				expect(view.dom.querySelector(".cm-mcp-approval")).toBeNull();
+			});
+			expect(transport.requests.some((req) => req.method === "tools/call")).toBe(false);
+			expect(view.state.doc.toString()).toBe("!search issues");
+			view.destroy();
+		});
+
+		it("should drop the result once the command is edited", async () => {
+			const { view, handler } = createToolView("Run !");
+			const completions = await handler(new CompletionContext(view.state, 5, false, view));
+
+			const ping = completions?.options[0];
+			const running = ping.apply(view, ping, 4, 5);
+			view.dispatch({ changes: { from: 2, to: 5 } });
+			await running;
+
+			expect(transport.requests.some((req) => req.method === "tools/call")).toBe(true);
+			expect(view.state.doc.toString()).toBe("Ru");
+			expect(mockLogger.log).toHaveBeenCalledWith(
+				"Dropped the result of tool ping, its command was edited",
+			);
+			view.destroy();
+		});
+
+		it("should not call a denied tool", async () => {
+			const { view, handler } = createToolView("!search bugs");
+			await handler(new CompletionContext(view.state, 1, true, view));
+			const completions = await handler(new CompletionContext(view.state, 12, false, view));
+
+			const run = completions?.options.find(
+				(option: { label: string }) => option.label === "!search",
+			);
+			const running = run.apply(view, run, completions.from, 12);
+			expect(view.dom.querySelector(".cm-mcp-approval-arguments")?.textContent).toBe(
+				JSON.stringify({ query: "bugs" }, null, 2),
+			);
+			await clickApproval(view, "deny");
+			await running;
+
+			expect(transport.requests.some((req) => req.method === "tools/call")).toBe(false);
+			expect(view.dom.querySelector(".cm-mcp-approval")).toBeNull();
+			expect(view.state.doc.toString()).toBe("!search bugs");
+			view.destroy();
+		});
+
+		it("should hand the result to onToolResult", async () => {
+			const onToolResult = vi.fn();
+			const { view, handler } = createToolView("!", onToolResult);
+			const completions = await handler(new CompletionContext(view.state, 1, false, view));
+
+			const ping = completions?.options[0];
+			await ping.apply(view, ping, 0, 1);
+
+			expect(onToolResult).toHaveBeenCalledWith({
+				tool: transport.mockTools[0],
+				arguments: {},
+				result: { content: [{ type: "text", text: "Result of ping" }] },
+			});
+			expect(view.state.doc.toString()).toBe("!");
+			view.destroy();
+		});
+	});
+
+	describe("custom triggers", () => {
+		function createTriggerView(doc: string) {
+			const extension = mcpExtension({
+				transport,
+				logger: mockLogger,
+				triggers: { resource: "#", prompt: "::" },
+			});
+			const view = new EditorView({
+				state: EditorState.create({ doc, extensions: [extension] }),
+				parent: document.createElement("div"),
+			});
+			// biome-ignore lint/suspicious/noExplicitAny: tests
+			const handler = (extension as any)[2][2].value.override[0];
+			return { view, handler };
+		}
+
+		it("should complete resources with the resource trigger", async () => {
+			const { view, handler } = createTriggerView("Hello #");
+			const completions = await handler(new CompletionContext(view.state, 7, false, view));
+
+			expect(completions?.from).toBe(6);
+			expect(completions?.options.map((option: { label: string }) => option.label)).toEqual([
+				"#test1",
+				"#test2",
+			]);
+			completions.options[0].apply(view, completions.options[0], 6, 7);
+			expect(view.state.doc.toString()).toBe("Hello #test://1 ");
+			expect(view.contentDOM.querySelector(".cm-resource-widget")?.textContent).toBe("#test1");
+			expect(extractResources(view).map(({ start, end }) => [start, end])).toEqual([[6, 15]]);
+			view.destroy();
+		});
+
+		it("should ignore the default triggers", async () => {
+			const { view, handler } = createTriggerView("@decorator /path");
+			const resource = await handler(new CompletionContext(view.state, 10, false, view));
+			const prompt = await handler(new CompletionContext(view.state, 16, false, view));
+
+			expect(resource).toBeNull();
+			expect(prompt).toBeNull();
+			expect(transport.requests.some((req) => req.method === "prompts/list")).toBe(false);
+			view.destroy();
+		});
+
+		it("should complete prompts with the prompt trigger", async () => {
+			const { view, handler } = createTriggerView("Hello ::");
+			const completions = await handler(new CompletionContext(view.state, 8, false, view));
+
+			expect(completions?.options.map((option: { label: string }) => option.label)).toEqual([
+				"::prompt1",
+				"::prompt2",
+			]);
+			view.destroy();
+		});
+	});
+
+	describe("status panel", () => {
+		function createPanelView(panelTransport: Transport) {
+			return new EditorView({
+				state: EditorState.create({
+					extensions: [
+						mcpExtension({
+							transport: panelTransport,
+							logger: mockLogger,
+							statusPanel: true,
+							reconnect: false,
+						}),
+					],
+				}),
+				parent: document.createElement("div"),
+			});
+		}
+
+		it("should show the server name, version and state", async () => {
+			const view = createPanelView(transport);
+
+			await vi.waitFor(() => {
+				expect(view.dom.querySelector(".cm-mcp-status-state")?.textContent).toBe("connected");
+			});
+			expect(view.dom.querySelector(".cm-mcp-status-server")?.textContent).toBe(
+				"codemirror-mcp 0.1.0",
+			);
+			expect(view.dom.querySelector(".cm-mcp-status-retry")).toBeNull();
+			view.destroy();
+		});
+
+		it("should show the last error with a retry button", async () => {
+			const start = vi.fn().mockRejectedValueOnce(new Error("Server unreachable"));
+			transport.start = start;
+			const view = createPanelView(transport);
+
+			await vi.waitFor(() => {
+				expect(view.dom.querySelector(".cm-mcp-status-message")?.textContent).toBe(
+					"Server unreachable",
+				);
+			});
+			expect(view.dom.querySelector(".cm-mcp-status-state")?.textContent).toBe("error");
+
+			const retry = view.dom.querySelector<HTMLButtonElement>(".cm-mcp-status-retry");
+			retry?.click();
+			await vi.waitFor(() => {
+				expect(view.dom.querySelector(".cm-mcp-status-state")?.textContent).toBe("connected");
+			});
+			expect(start).toHaveBeenCalledTimes(2);
+			expect(view.dom.querySelector(".cm-mcp-status-message")).toBeNull();
+			view.destroy();
+		});
+	});
+
+	describe("multiple servers", () => {
+		let files: MockTransport;
+		let db: MockTransport;
+
+		function createServersView(doc: string, onPromptSubmit = vi.fn()) {
+			const extension = mcpExtension({
+				servers: [
+					{ name: "files", transport: files },
+					{ name: "db", transport: db },
+				],
+				logger: mockLogger,
+				onPromptSubmit,
+				approvalPolicy: { autoApprove: () => true },
+			});
+			const view = new EditorView({
+				state: EditorState.create({ doc, extensions: [extension] }),
+				parent: document.createElement("div"),
+			});
+			// biome-ignore lint/suspicious/noExplicitAny: tests
+			const handler = (extension as any)[2][2].value.override[0];
+			return { view, handler };
+		}
+
+		beforeEach(() => {
+			files = new MockTransport();
+			files.mockPrompts = [{ name: "summarize" }];
+			db = new MockTransport();
+			db.mockResources = [
+				{ name: "shared", uri: "test://1", type: "text" },
+				{ name: "rows", uri: "db://rows", type: "text" },
+			];
+			db.mockPrompts = [{ name: "summarize" }, { name: "query" }];
+		});
+
+		it("should require a transport or servers", () => {
+			expect(() => mcpExtension({ logger: mockLogger })).toThrow(
+				"mcpExtension requires a transport or at least one server",
+			);
+		});
+
+		it("should merge resources and qualify duplicate URIs", async () => {
+			const { view, handler } = createServersView("@");
+			const completions = await handler(new CompletionContext(view.state, 1, true, view));
+
+			// The first server is listed first, the second one is streamed in afterwards
+			expect(completions?.options.map((option: { server?: string }) => option.server)).toEqual([
+				"files",
+				"files",
+			]);
+			await vi.waitFor(() => {
+				expect([...view.state.field(resourcesField).keys()].sort()).toEqual([
+					"db+test://1",
+					"db://rows",
+					"test://1",
+					"test://2",
+				]);
+			});
+			expect(view.state.field(resourcesField).get("db+test://1")?.server).toBe("db");
+			view.destroy();
+		});
+
+		it("should merge prompts and route prompts/get to the owning server", async () => {
+			const onPromptSubmit = vi.fn();
+			const { view, handler } = createServersView("/", onPromptSubmit);
+			const completions = await handler(new CompletionContext(view.state, 1, true, view));
+
+			const labels = completions?.options.map((option: { label: string }) => option.label);
+			expect(labels).toEqual(["/summarize", "/db_summarize", "/query"]);
+
+			const qualified = completions?.options[1];
+			await qualified.apply(view, qualified, 0, 1);
+
+			expect(files.requests.some((req) => req.method === "prompts/get")).toBe(false);
+			const request = db.requests.find((req) => req.method === "prompts/get");
+			expect(request?.params).toEqual({ name: "summarize" });
+			expect(onPromptSubmit).toHaveBeenCalled();
+			view.destroy();
+		});
+	});
 });
 
 describe("extractResources", () => {
@@ -347,6 +1220,27 @@ describe("extractResources", () => {
 		`);
 	});
 
+	it("should honor the resource trigger", () => {
+		const view = new EditorView({
+			state: EditorState.create({
+				doc: "@decorator @test://1 #test://1",
+				extensions: [
+					resourcesField,
+					triggersField.init(() => ({ resource: "#", prompt: "/", tool: "!" })),
+				],
+			}),
+		});
+		view.dispatch({
+			effects: updateResources.of(
+				new Map([["test://1", { name: "test1", uri: "test://1", type: "text", data: {} }]]),
+			),
+		});
+
+		const matches = extractResources(view);
+		expect(matches.map(({ start, end }) => [start, end])).toEqual([[21, 30]]);
+		view.destroy();
+	});
+
 	it("should handle empty text", () => {
 		const resources = new Map([
 			["test://1", { name: "test1", uri: "test://1", type: "text", data: {} }],
@@ -0,0 +1,208 @@
+import { javascript } from "@codemirror/lang-javascript";
+import { LanguageDescription } from "@codemirror/language";
+import { describe, expect, it, vi } from "vitest";
+import { renderMarkdown } from "../resources/markdown.js";
+import {
+	cachePreviewReads,
+	renderResourcePreview,
+	withResourcePreview,
+} from "../resources/preview.js";
+
+const text = (uri: string, mimeType: string, content: string) => ({ uri, mimeType, text: content });
+
+describe("renderResourcePreview", () => {
+	it("should render the first rows of CSV as a table", async () => {
+		const csv = 'name,city\n"Doe, Jane",Paris\nJohn,"New ""York"""\nAnn,Oslo\n';
+		const { dom } = await renderResourcePreview([text("file:///people.csv", "text/csv", csv)], {
+			maxRows: 3,
+		});
+
+		const rows = [...dom.querySelectorAll("tr")].map((row) =>
+			[...row.children].map((cell) => cell.textContent),
+		);
+		expect(rows).toEqual([
+			["name", "city"],
+			["Doe, Jane", "Paris"],
+			["John", 'New "York"'],
+		]);
+		expect(dom.querySelectorAll("th")).toHaveLength(2);
+	});
+
+	it("should render markdown", async () => {
+		const { dom } = await renderResourcePreview([
+			text("file:///README.md", "text/markdown", "# Title\n\nSome **bold** text"),
+		]);
+
+		expect(dom.querySelector("h1")?.textContent).toBe("Title");
+		expect(dom.querySelector("p strong")?.textContent).toBe("bold");
+	});
+
+	it("should render image blobs as thumbnails within the size limit", async () => {
+		const blob = "iVBORw0KGgo=";
+		const small = await renderResourcePreview([
+			{ uri: "file:///logo.png", mimeType: "image/png", blob },
+		]);
+		expect(small.dom.querySelector("img")?.getAttribute("src")).toBe(
+			`data:image/png;base64,${blob}`,
+		);
+
+		const large = await renderResourcePreview(
+			[{ uri: "file:///logo.png", mimeType: "image/png", blob }],
+			{ maxImageBytes: 4 },
+		);
+		expect(large.dom.querySelector("img")).toBeNull();
+		expect(large.dom.textContent).toContain("too large");
+	});
+
+	it("should not render other blobs", async () => {
+		const { dom } = await renderResourcePreview([
+			{ uri: "file:///archive.zip", mimeType: "application/zip", blob: "UEsDBA==" },
+		]);
+
+		expect(dom.textContent).toBe("Binary content (application/zip)");
+	});
+
+	it("should truncate text to the size limits", async () => {
+		const lines = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+		const { dom } = await renderResourcePreview([text("file:///log.txt", "text/plain", lines)], {
+			maxLines: 5,
+		});
+
+		expect(dom.querySelector("pre")?.textContent).toBe("line 0\nline 1\nline 2\nline 3\nline 4");
+		expect(dom.querySelector(".cm-mcp-preview-truncated")).not.toBeNull();
+	});
+
+	it("should highlight code in a known language", async () => {
+		const languages = [
+			LanguageDescription.of({ name: "JavaScript", extensions: ["js"], support: javascript() }),
+		];
+		const preview = await renderResourcePreview(
+			[text("file:///src/index.js", "text/javascript", "const answer = 42;")],
+			{ languages },
+		);
+
+		expect(preview.dom.querySelector(".cm-editor")?.textContent).toContain("const answer = 42;");
+		preview.destroy?.();
+	});
+});
+
+describe("withResourcePreview", () => {
+	it("should show a loading state until the resource is read", async () => {
+		let resolve: (contents: { uri: string; text: string }[]) => void = () => {};
+		const readResource = vi.fn(
+			() =>
+				new Promise<{ uri: string; text: string }[]>((r) => {
+					resolve = r;
+				}),
+		);
+		const tooltip = withResourcePreview(
+			{ dom: document.createElement("div") },
+			"file:///notes.txt",
+			readResource,
+		);
+
+		expect(tooltip.dom.querySelector(".cm-mcp-preview-loading")).not.toBeNull();
+		resolve([{ uri: "file:///notes.txt", text: "Hello" }]);
+
+		await vi.waitFor(() => expect(tooltip.dom.querySelector("pre")?.textContent).toBe("Hello"));
+		expect(tooltip.dom.querySelector(".cm-mcp-preview-loading")).toBeNull();
+	});
+
+	it("should abort the read when the tooltip is destroyed", () => {
+		let signal: AbortSignal | undefined;
+		const readResource = vi.fn((_uri: string, received: AbortSignal) => {
+			signal = received;
+			return new Promise<never>(() => {});
+		});
+		const tooltip = withResourcePreview(
+			{ dom: document.createElement("div") },
+			"file:///notes.txt",
+			readResource,
+		);
+
+		tooltip.destroy?.();
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it("should report resources that cannot be read", async () => {
+		const tooltip = withResourcePreview(
+			{ dom: document.createElement("div") },
+			"file:///notes.txt",
+			vi.fn().mockRejectedValue(new Error("Not found")),
+		);
+
+		await vi.waitFor(() => expect(tooltip.dom.textContent).toBe("Preview unavailable"));
+	});
+});
+
+describe("cachePreviewReads", () => {
+	const resource = { name: "notes", uri: "file:///notes.txt", type: "file", data: [] };
+	const contents = [{ uri: "file:///notes.txt", text: "Hello" }];
+
+	it("should read a resource once until its data is refreshed", async () => {
+		const readResource = vi.fn().mockResolvedValue(contents);
+		const readPreview = cachePreviewReads(readResource);
+
+		await readPreview(resource)(resource.uri, new AbortController().signal);
+		await readPreview(resource)(resource.uri, new AbortController().signal);
+		expect(readResource).toHaveBeenCalledTimes(1);
+
+		await readPreview({ ...resource, data: [] })(resource.uri, new AbortController().signal);
+		expect(readResource).toHaveBeenCalledTimes(2);
+	});
+
+	it("should cancel a read once no preview waits for it", () => {
+		const readResource = vi.fn(
+			(_uri: string, _signal: AbortSignal) => new Promise<never>(() => {}),
+		);
+		const readPreview = cachePreviewReads(readResource);
+		const first = new AbortController();
+		const second = new AbortController();
+
+		void readPreview(resource)(resource.uri, first.signal);
+		void readPreview(resource)(resource.uri, second.signal);
+		const signal = readResource.mock.calls[0]?.[1];
+
+		first.abort();
+		expect(signal?.aborted).toBe(false);
+		second.abort();
+		expect(signal?.aborted).toBe(true);
+
+		void readPreview(resource)(resource.uri, new AbortController().signal);
+		expect(readResource).toHaveBeenCalledTimes(2);
+	});
+
+	it("should read again after a failed read", async () => {
+		const readResource = vi.fn().mockRejectedValueOnce(new Error("Offline"));
+		readResource.mockResolvedValue(contents);
+		const readPreview = cachePreviewReads(readResource);
+
+		await expect(readPreview(resource)(resource.uri, new AbortController().signal)).rejects.toThrow(
+			"Offline",
+		);
+		await expect(readPreview(resource)(resource.uri, new AbortController().signal)).resolves.toBe(
+			contents,
+		);
+	});
+});
+
+describe("renderMarkdown", () => {
+	it("should render lists, quotes and code blocks", () => {
+		const dom = renderMarkdown("- one\n- two\n\n1. first\n\n> quoted\n\n```\ncode\n```");
+
+		expect([...dom.querySelectorAll("ul li")].map((li) => li.textContent)).toEqual(["one", "two"]);
+		expect(dom.querySelector("ol li")?.textContent).toBe("first");
+		expect(dom.querySelector("blockquote")?.textContent).toBe("quoted");
+		expect(dom.querySelector("pre")?.textContent).toBe("code");
+	});
+
+	it("should only link safe URLs and never render HTML", () => {
+		const dom = renderMarkdown(
+			"[site](https://example.com) [bad](javascript:alert(1)) <img src=x onerror=alert(1)>",
+		);
+
+		expect(dom.querySelector("a")?.getAttribute("href")).toBe("https://example.com");
+		expect(dom.querySelectorAll("a")).toHaveLength(1);
+		expect(dom.querySelector("img")).toBeNull();
+	});
+});
@@ -0,0 +1,89 @@
+import type { Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import {
+	createCommandPattern,
+	formatArgumentValue,
+	formatPromptSignature,
+	getMissingArguments,
+	getPromptArguments,
+	hasPromptArguments,
+	parsePromptCommand,
+} from "../prompts/arguments.js";
+
+const readTable: Prompt = {
+	name: "read_table",
+	description: "Read a table",
+	arguments: [
+		{ name: "table_name", description: "Table to read", required: true },
+		{ name: "column_name", description: "Column to read" },
+	],
+};
+
+describe("parsePromptCommand", () => {
+	it("should parse a command with an empty argument slot", () => {
+		expect(parsePromptCommand("/read_table ", 6)).toEqual({
+			name: "read_table",
+			from: 6,
+			values: [],
+			current: { from: 18, to: 18, value: "" },
+		});
+	});
+
+	it("should parse typed values and the current value", () => {
+		const command = parsePromptCommand("/read_table users na");
+		expect(command?.values).toEqual(["users"]);
+		expect(command?.current).toEqual({ from: 18, to: 20, value: "na" });
+	});
+
+	it("should unquote quoted values", () => {
+		const command = parsePromptCommand('/read_table "my table" "first na');
+		expect(command?.values).toEqual(["my table"]);
+		expect(command?.current.value).toBe("first na");
+	});
+
+	it("should not parse a command without an argument slot", () => {
+		expect(parsePromptCommand("/read_table")).toBeNull();
+		expect(parsePromptCommand("read_table users")).toBeNull();
+	});
+
+	it("should parse commands with another trigger", () => {
+		const pattern = createCommandPattern("!");
+		expect(parsePromptCommand("!search bugs op", 0, pattern)).toMatchObject({
+			name: "search",
+			values: ["bugs"],
+			current: { from: 13, to: 15, value: "op" },
+		});
+		expect(parsePromptCommand("/search bugs", 0, pattern)).toBeNull();
+	});
+});
+
+describe("prompt argument helpers", () => {
+	it("should format values containing whitespace with quotes", () => {
+		expect(formatArgumentValue("users")).toBe("users");
+		expect(formatArgumentValue("my table")).toBe('"my table"');
+	});
+
+	it("should format the prompt signature marking optional arguments", () => {
+		expect(formatPromptSignature(readTable)).toBe("[table_name] [column_name?]");
+		expect(formatPromptSignature({ name: "empty" })).toBe("");
+	});
+
+	it("should detect prompts with arguments", () => {
+		expect(hasPromptArguments(readTable)).toBe(true);
+		expect(hasPromptArguments({ name: "empty", arguments: [] })).toBe(false);
+		expect(hasPromptArguments({ name: "empty" })).toBe(false);
+	});
+
+	it("should pair values with arguments in order", () => {
+		expect(getPromptArguments(readTable, ["users", "id", "extra"])).toEqual({
+			table_name: "users",
+			column_name: "id",
+		});
+		expect(getPromptArguments(readTable, [])).toEqual({});
+	});
+
+	it("should report missing required arguments", () => {
+		expect(getMissingArguments(readTable, {}).map((a) => a.name)).toEqual(["table_name"]);
+		expect(getMissingArguments(readTable, { table_name: "users" })).toEqual([]);
+	});
+});
@@ -0,0 +1,117 @@
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import type { Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { findPromptCommands, promptDecorations } from "../prompts/decoration.js";
+import { createPromptTooltip } from "../prompts/hover.js";
+import { promptsField, triggersField, updatePrompts } from "../state.js";
+
+const readTable: Prompt = {
+	name: "read_table",
+	description: "Read a table",
+	arguments: [
+		{ name: "table_name", description: "Table to read", required: true },
+		{ name: "column_name" },
+	],
+};
+
+function createState(doc: string) {
+	const state = EditorState.create({ doc, extensions: [promptsField] });
+	return state.update({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) }).state;
+}
+
+describe("findPromptCommands", () => {
+	it("should find commands of known prompts at the start of words", () => {
+		const state = createState("/read_table users then /read_table");
+		expect(findPromptCommands(state, state.doc.toString())).toEqual([
+			{ prompt: readTable, from: 0, to: 11 },
+			{ prompt: readTable, from: 23, to: 34 },
+		]);
+	});
+
+	it("should skip unknown prompts and commands inside words", () => {
+		const state = createState("/unknown a/read_table /read_tables /read_table/x");
+		expect(findPromptCommands(state, state.doc.toString())).toEqual([]);
+	});
+
+	it("should honor the prompt trigger", () => {
+		let state = EditorState.create({
+			doc: "::read_table /read_table",
+			extensions: [
+				promptsField,
+				triggersField.init(() => ({ resource: "@", prompt: "::", tool: "!" })),
+			],
+		});
+		state = state.update({
+			effects: updatePrompts.of(new Map([[readTable.name, readTable]])),
+		}).state;
+		expect(findPromptCommands(state, state.doc.toString(), 10)).toEqual([
+			{ prompt: readTable, from: 10, to: 22 },
+		]);
+	});
+});
+
+describe("promptDecorations", () => {
+	let view: EditorView;
+
+	afterEach(() => {
+		view.destroy();
+	});
+
+	it("should render commands of known prompts as chips once prompts are known", () => {
+		view = new EditorView({
+			state: EditorState.create({
+				doc: "Run /read_table users",
+				extensions: [promptsField, promptDecorations],
+			}),
+		});
+		expect(view.dom.querySelector(".cm-prompt-widget")).toBeNull();
+
+		view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+		const chips = view.dom.querySelectorAll(".cm-prompt-widget");
+		expect(chips).toHaveLength(1);
+		expect(chips[0]?.textContent).toBe("/read_table");
+	});
+
+	it("should make the chips atomic", () => {
+		view = new EditorView({
+			state: EditorState.create({
+				doc: "Run /read_table users",
+				extensions: [promptsField, promptDecorations],
+			}),
+		});
+		view.dispatch({ effects: updatePrompts.of(new Map([[readTable.name, readTable]])) });
+
+		const ranges: Array<[number, number]> = [];
+		for (const source of view.state.facet(EditorView.atomicRanges)) {
+			source(view).between(0, view.state.doc.length, (from, to) => {
+				ranges.push([from, to]);
+			});
+		}
+		expect(ranges).toEqual([[4, 15]]);
+	});
+});
+
+describe("createPromptTooltip", () => {
+	it("should show the signature, description and arguments", () => {
+		const { dom } = createPromptTooltip(readTable);
+
+		expect(dom.querySelector(".cm-tooltip-cursor-title")?.textContent).toBe(
+			"/read_table [table_name] [column_name?]",
+		);
+		expect(dom.querySelector(".cm-tooltip-cursor-description")?.textContent).toBe("Read a table");
+		const items = Array.from(
+			dom.querySelectorAll(".cm-mcp-prompt-arguments li"),
+			(li) => li.textContent,
+		);
+		expect(items).toEqual(["table_name (required): Table to read", "column_name (optional)"]);
+	});
+
+	it("should leave out what the prompt does not declare", () => {
+		const { dom } = createPromptTooltip({ name: "summarize" }, "::");
+
+		expect(dom.querySelector(".cm-tooltip-cursor-title")?.textContent).toBe("::summarize");
+		expect(dom.querySelector(".cm-tooltip-cursor-description")).toBeNull();
+		expect(dom.querySelector(".cm-mcp-prompt-arguments")).toBeNull();
+	});
+});
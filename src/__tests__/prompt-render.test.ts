@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { renderPromptMessages } from "../prompts/render.js";
+
+describe("renderPromptMessages", () => {
+	it("should render text and embedded resources as mentions, one message per paragraph", () => {
+		const { text, resources } = renderPromptMessages(
+			[
+				{ role: "user", content: { type: "text", text: "Review" } },
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "docs://guide/style.md", text: "# Style" },
+					},
+				},
+				{ role: "assistant", content: { type: "image", data: "AAEC", mimeType: "image/png" } },
+				{ role: "user", content: { type: "text", text: "Thanks" } },
+			],
+			"#",
+		);
+
+		expect(text).toBe("Review\n\n#docs://guide/style.md\n\nThanks");
+		expect(resources).toEqual([
+			{
+				type: "docs",
+				uri: "docs://guide/style.md",
+				name: "style.md",
+				description: undefined,
+				mimeType: undefined,
+				data: [{ type: "text", uri: "docs://guide/style.md", text: "# Style" }],
+			},
+		]);
+	});
+
+	it("should decode embedded binary resources", () => {
+		const { resources } = renderPromptMessages(
+			[
+				{
+					role: "user",
+					content: {
+						type: "resource",
+						resource: { uri: "img://logo", mimeType: "image/png", blob: "AAEC/w==" },
+					},
+				},
+			],
+			"@",
+		);
+		expect(resources[0]?.data).toEqual([
+			{
+				type: "blob",
+				uri: "img://logo",
+				mimeType: "image/png",
+				bytes: new Uint8Array([0, 1, 2, 255]),
+			},
+		]);
+	});
+});
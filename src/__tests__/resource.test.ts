@@ -1,5 +1,12 @@
 import { describe, expect, it } from "vitest";
-import { type Resource, fromMCPResource, toMCPResource } from "../resources/resource.js";
+import {
+	type Resource,
+	decodeBase64,
+	fromMCPResource,
+	getContentText,
+	toContentPart,
+	toMCPResource,
+} from "../resources/resource.js";
 
 describe("resource utilities", () => {
 	describe("fromMCPResource", () => {
@@ -110,6 +117,62 @@ describe("resource utilities", () => {
 			expect(resource.data).toEqual(binaryData);
 			expect(resource.mimeType).toBe("image/png");
 		});
+
+		it("should keep valid icons sent by the server", () => {
+			const resource = fromMCPResource(
+				{
+					uri: "file://image.png",
+					name: "Image",
+					icons: [{ src: "https://example.com/icon.png", sizes: ["16x16"] }, { sizes: ["32x32"] }],
+				},
+				"",
+			);
+
+			expect(resource.icons).toEqual([{ src: "https://example.com/icon.png", sizes: ["16x16"] }]);
+			expect(fromMCPResource({ uri: "file://a", name: "a", icons: "icon.png" }, "").icons).toBe(
+				undefined,
+			);
+		});
+
+		it("should keep the size sent by the server", () => {
+			expect(fromMCPResource({ uri: "file://a", name: "a", size: 1024 }, "").size).toBe(1024);
+			expect(fromMCPResource({ uri: "file://a", name: "a", size: "big" }, "")).not.toHaveProperty(
+				"size",
+			);
+		});
+	});
+
+	describe("content parts", () => {
+		it("should decode blobs into bytes, keeping the MIME type of each part", () => {
+			expect(
+				toContentPart({ uri: "file://logo.png", mimeType: "image/png", blob: "iVBORw==" }),
+			).toEqual({
+				type: "blob",
+				uri: "file://logo.png",
+				mimeType: "image/png",
+				bytes: new Uint8Array([137, 80, 78, 71]),
+			});
+			expect(toContentPart({ uri: "file://a.txt", text: "Hello" })).toEqual({
+				type: "text",
+				uri: "file://a.txt",
+				text: "Hello",
+			});
+		});
+
+		it("should decode base64", () => {
+			expect(decodeBase64("AAEC/w==")).toEqual(new Uint8Array([0, 1, 2, 255]));
+			expect(decodeBase64("")).toEqual(new Uint8Array([]));
+		});
+
+		it("should join the text parts only", () => {
+			const text = getContentText([
+				{ type: "text", uri: "file://a.md", text: "# A" },
+				{ type: "blob", uri: "file://a.png", mimeType: "image/png", bytes: new Uint8Array([1]) },
+				{ type: "text", uri: "file://b.md", text: "# B" },
+			]);
+
+			expect(text).toBe("# A\n# B");
+		});
 	});
 
 	describe("toMCPResource", () => {
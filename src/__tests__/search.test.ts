@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyMatch, matchResource } from "../resources/search.js";
+
+describe("fuzzyMatch", () => {
+	it("should match everything with an empty query", () => {
+		expect(fuzzyMatch("readme.md", "")).toEqual({ score: 0, ranges: [] });
+	});
+
+	it("should match substrings case-insensitively", () => {
+		expect(fuzzyMatch("README.md", "read")?.ranges).toEqual([0, 4]);
+		expect(fuzzyMatch("docs/README.md", "readme")?.ranges).toEqual([5, 11]);
+	});
+
+	it("should rank prefixes above word starts above other substrings", () => {
+		const prefix = fuzzyMatch("users.csv", "us")?.score ?? 0;
+		const wordStart = fuzzyMatch("all_users.csv", "us")?.score ?? 0;
+		const inside = fuzzyMatch("houses.csv", "us")?.score ?? 0;
+
+		expect(prefix).toBeGreaterThan(wordStart);
+		expect(wordStart).toBeGreaterThan(inside);
+	});
+
+	it("should match subsequences with merged ranges", () => {
+		expect(fuzzyMatch("userProfile", "usp")?.ranges).toEqual([0, 2, 4, 5]);
+		expect(fuzzyMatch("userProfile", "xyz")).toBeNull();
+	});
+
+	it("should rank substrings above subsequences", () => {
+		const substring = fuzzyMatch("profile", "file")?.score ?? 0;
+		const subsequence = fuzzyMatch("fixtures/login", "file")?.score ?? 0;
+
+		expect(substring).toBeGreaterThan(subsequence);
+	});
+});
+
+describe("matchResource", () => {
+	const resource = {
+		name: "Users",
+		uri: "db://tables/users_archive",
+		description: "Archived accounts",
+		mimeType: "application/json",
+	};
+
+	it("should prefer name matches and highlight them", () => {
+		expect(matchResource(resource, "use")?.ranges).toEqual([0, 3]);
+	});
+
+	it("should match the URI, description and MIME type without highlights", () => {
+		expect(matchResource(resource, "archive")).toMatchObject({ ranges: [] });
+		expect(matchResource(resource, "accounts")).toMatchObject({ ranges: [] });
+		expect(matchResource(resource, "json")).toMatchObject({ ranges: [] });
+		expect(matchResource(resource, "zzz")).toBeNull();
+	});
+
+	it("should weigh URI matches above description matches", () => {
+		const uri = matchResource({ name: "a", uri: "db://notes" }, "notes")?.score ?? 0;
+		const description = matchResource({ name: "a", uri: "x://1", description: "notes" }, "notes");
+
+		expect(uri).toBeGreaterThan(description?.score ?? 0);
+	});
+});
@@ -0,0 +1,194 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MCPResourceProvider } from "../mcp/mcp-provider.js";
+import { MCPServerPool } from "../mcp/server-pool.js";
+
+vi.mock("../mcp/mcp-provider.js", () => ({
+	MCPResourceProvider: vi.fn(),
+}));
+
+const createMockProvider = (uris: string[], templates: string[] = []) => {
+	const listeners = new Set<(uri: string) => void>();
+	return {
+		isConnected: vi.fn().mockResolvedValue(true),
+		getResourcePages: vi.fn(async function* () {
+			yield uris.map((uri) => ({ uri, name: uri, type: "test", data: "" }));
+		}),
+		getResourceTemplates: vi
+			.fn()
+			.mockResolvedValue(templates.map((uriTemplate) => ({ uriTemplate, name: uriTemplate }))),
+		readResource: vi.fn().mockResolvedValue("content"),
+		readResourceContents: vi.fn(async (uri: string) => [
+			{ uri, mimeType: "image/png", blob: "AQI=" },
+		]),
+		supportsSearch: vi.fn().mockReturnValue(false),
+		searchResources: vi.fn().mockResolvedValue([]),
+		subscribe: vi.fn().mockResolvedValue(undefined),
+		completeArgument: vi.fn().mockResolvedValue([]),
+		getPrompts: vi.fn().mockResolvedValue([]),
+		getPrompt: vi.fn().mockResolvedValue({ messages: [] }),
+		invalidate: vi.fn(),
+		onResourceUpdated: vi.fn((listener: (uri: string) => void) => {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		}),
+		emitUpdated: (uri: string) => {
+			for (const listener of listeners) listener(uri);
+		},
+	};
+};
+
+describe("MCPServerPool", () => {
+	const transport = {} as Transport;
+	let files: ReturnType<typeof createMockProvider>;
+	let db: ReturnType<typeof createMockProvider>;
+	let pool: MCPServerPool;
+
+	beforeEach(() => {
+		files = createMockProvider(["file://a.txt"]);
+		db = createMockProvider(["file://a.txt", "db://users"], ["db://tables/{table}"]);
+		vi.mocked(MCPResourceProvider)
+			.mockReturnValueOnce(files as unknown as MCPResourceProvider)
+			.mockReturnValueOnce(db as unknown as MCPResourceProvider);
+		pool = new MCPServerPool([
+			{ name: "files", transport },
+			{ name: "db", transport },
+		]);
+	});
+
+	it("should reject duplicate server names", () => {
+		expect(
+			() =>
+				new MCPServerPool([
+					{ name: "files", transport },
+					{ name: "files", transport },
+				]),
+		).toThrow("Duplicate MCP server name: files");
+	});
+
+	it("should skip disconnected servers", async () => {
+		files.isConnected.mockResolvedValue(false);
+
+		const resources = await pool.getResources();
+		expect(resources.map((resource) => resource.uri)).toEqual(["file://a.txt", "db://users"]);
+		expect(files.getResourcePages).not.toHaveBeenCalled();
+	});
+
+	it("should route qualified URIs to their server", async () => {
+		await pool.getResources();
+
+		await pool.readResource("db+file://a.txt");
+		expect(db.readResource).toHaveBeenCalledWith("file://a.txt");
+
+		await pool.readResource("file://a.txt");
+		expect(files.readResource).toHaveBeenCalledWith("file://a.txt");
+	});
+
+	it("should read decoded parts with the URIs used by the pool", async () => {
+		await pool.getResources();
+
+		const parts = await pool.readResourceParts("db+file://a.txt");
+		expect(db.readResourceContents).toHaveBeenCalledWith("file://a.txt", undefined);
+		expect(parts).toEqual([
+			{
+				type: "blob",
+				uri: "db+file://a.txt",
+				mimeType: "image/png",
+				bytes: new Uint8Array([1, 2]),
+			},
+		]);
+	});
+
+	it("should claim resources embedded in prompts for the server of the prompt", async () => {
+		await pool.getResources();
+		db.getPrompts.mockResolvedValue([{ name: "summarize" }]);
+		db.getPrompt.mockResolvedValue({
+			messages: [
+				{ role: "user", content: { type: "text", text: "Summarize" } },
+				{
+					role: "user",
+					content: { type: "resource", resource: { uri: "file://a.txt", text: "" } },
+				},
+				{ role: "user", content: { type: "resource", resource: { uri: "notes://b", text: "" } } },
+			],
+		});
+		await pool.getPrompts();
+
+		const { messages } = await pool.getPrompt("summarize");
+		expect(
+			messages.map(({ content }) => content.type === "resource" && content.resource.uri),
+		).toEqual([false, "db+file://a.txt", "notes://b"]);
+
+		await pool.readResource("notes://b");
+		expect(db.readResource).toHaveBeenCalledWith("notes://b");
+		expect(files.readResource).not.toHaveBeenCalled();
+	});
+
+	it("should route URIs expanded from a template by their scheme", async () => {
+		await pool.getResourceTemplates();
+
+		await pool.subscribe("db://tables/users");
+		expect(db.subscribe).toHaveBeenCalledWith("db://tables/users");
+
+		await pool.completeArgument(
+			{ type: "ref/resource", uri: "db://tables/{table}" },
+			{ name: "table", value: "us" },
+		);
+		expect(db.completeArgument).toHaveBeenCalledWith(
+			{ type: "ref/resource", uri: "db://tables/{table}" },
+			{ name: "table", value: "us" },
+			undefined,
+		);
+	});
+
+	it("should report updates with the URIs used by the pool", async () => {
+		await pool.getResources();
+		const listener = vi.fn();
+		pool.onResourceUpdated(listener);
+
+		db.emitUpdated("file://a.txt");
+		files.emitUpdated("file://a.txt");
+
+		expect(listener).toHaveBeenNthCalledWith(1, "db+file://a.txt");
+		expect(listener).toHaveBeenNthCalledWith(2, "file://a.txt");
+	});
+
+	it("should search the servers configured for search", async () => {
+		await pool.getResources();
+		db.supportsSearch.mockReturnValue(true);
+		db.searchResources.mockResolvedValue([
+			{ uri: "file://a.txt", name: "a", type: "file", data: "" },
+			{ uri: "db://orders", name: "orders", type: "db", data: "" },
+		]);
+		const signal = new AbortController().signal;
+
+		const resources = await pool.searchResources("a", { limit: 1, signal });
+
+		expect(pool.supportsSearch()).toBe(true);
+		expect(files.searchResources).not.toHaveBeenCalled();
+		expect(db.searchResources).toHaveBeenCalledWith("a", { limit: 1, signal });
+		expect(resources).toEqual([
+			{ uri: "file://a.txt", name: "file://a.txt", type: "test", data: "", server: "files" },
+		]);
+	});
+
+	it("should merge search results with matching resources of servers without search", async () => {
+		db.supportsSearch.mockReturnValue(true);
+		db.searchResources.mockResolvedValue([
+			{ uri: "db://orders", name: "orders", type: "db", data: "" },
+		]);
+
+		const resources = await pool.searchResources("a.txt");
+
+		expect(files.getResourcePages).toHaveBeenCalled();
+		expect(db.getResourcePages).not.toHaveBeenCalled();
+		expect(resources.map((resource) => resource.uri)).toEqual(["file://a.txt", "db://orders"]);
+	});
+
+	it("should invalidate every server", () => {
+		pool.invalidate();
+
+		expect(files.invalidate).toHaveBeenCalled();
+		expect(db.invalidate).toHaveBeenCalled();
+	});
+});
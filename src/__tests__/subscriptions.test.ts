@@ -0,0 +1,120 @@
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MCPResourceProvider } from "../mcp/mcp-provider.js";
+import { resourceSubscriptions } from "../mcp/subscriptions.js";
+import type { Resource } from "../resources/resource.js";
+import { resourcesField, updateResources } from "../state.js";
+
+const updatedParts = [{ type: "text", uri: "docs://notes", text: "updated content" }];
+
+const createMockProvider = () => {
+	const listeners = new Set<(uri: string) => void>();
+	return {
+		subscribe: vi.fn().mockResolvedValue(undefined),
+		unsubscribe: vi.fn().mockResolvedValue(undefined),
+		readResourceParts: vi.fn().mockResolvedValue(updatedParts),
+		onResourceUpdated: vi.fn((listener: (uri: string) => void) => {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		}),
+		emitUpdated: (uri: string) => {
+			for (const listener of listeners) listener(uri);
+		},
+	};
+};
+
+describe("resourceSubscriptions", () => {
+	let view: EditorView;
+	let provider: ReturnType<typeof createMockProvider>;
+	const resource: Resource = {
+		name: "notes",
+		uri: "docs://notes",
+		type: "docs",
+		description: "Notes",
+		data: [{ type: "text", uri: "docs://notes", text: "old content" }],
+	};
+
+	beforeEach(() => {
+		provider = createMockProvider();
+		view = new EditorView({
+			state: EditorState.create({
+				doc: "",
+				extensions: [
+					resourcesField,
+					resourceSubscriptions(provider as unknown as MCPResourceProvider),
+				],
+			}),
+		});
+		view.dispatch({ effects: updateResources.of(new Map([[resource.uri, resource]])) });
+	});
+
+	afterEach(() => {
+		view.destroy();
+	});
+
+	it("should subscribe to mentioned resources", () => {
+		expect(provider.subscribe).not.toHaveBeenCalled();
+
+		view.dispatch({ changes: { from: 0, insert: "Read @docs://notes " } });
+		expect(provider.subscribe).toHaveBeenCalledWith("docs://notes");
+
+		view.dispatch({ changes: { from: 5, insert: "and @docs://notes " } });
+		expect(provider.subscribe).toHaveBeenCalledTimes(1);
+	});
+
+	it("should unsubscribe when the mention is removed", async () => {
+		view.dispatch({ changes: { from: 0, insert: "@docs://notes " } });
+		view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: "" } });
+
+		await vi.waitFor(() => {
+			expect(provider.unsubscribe).toHaveBeenCalledWith("docs://notes");
+		});
+	});
+
+	it("should unsubscribe only once the subscribe call is done", async () => {
+		let finishSubscribe: () => void = () => {};
+		provider.subscribe.mockReturnValue(
+			new Promise<void>((resolve) => {
+				finishSubscribe = resolve;
+			}),
+		);
+
+		view.dispatch({ changes: { from: 0, insert: "@docs://notes " } });
+		view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: "" } });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(provider.unsubscribe).not.toHaveBeenCalled();
+
+		finishSubscribe();
+		await vi.waitFor(() => {
+			expect(provider.unsubscribe).toHaveBeenCalledWith("docs://notes");
+		});
+	});
+
+	it("should refresh updated resources, keeping their metadata", async () => {
+		view.dispatch({ changes: { from: 0, insert: "@docs://notes " } });
+
+		provider.emitUpdated("docs://notes");
+		await vi.waitFor(() => {
+			expect(view.state.field(resourcesField).get(resource.uri)?.data).toEqual(updatedParts);
+		});
+		expect(view.state.field(resourcesField).get(resource.uri)).toMatchObject({
+			name: "notes",
+			description: "Notes",
+		});
+	});
+
+	it("should ignore updates for resources that are not mentioned", () => {
+		provider.emitUpdated("docs://notes");
+		expect(provider.readResourceParts).not.toHaveBeenCalled();
+	});
+
+	it("should release subscriptions when the view is destroyed", async () => {
+		view.dispatch({ changes: { from: 0, insert: "@docs://notes " } });
+		view.destroy();
+
+		await vi.waitFor(() => {
+			expect(provider.unsubscribe).toHaveBeenCalledWith("docs://notes");
+		});
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { ResourceTemplate } from "../resources/resource.js";
+import {
+	expandUriTemplate,
+	fromResourceTemplate,
+	getTemplatePrefix,
+	getTemplateVariables,
+	matchUriTemplate,
+	parseUriTemplate,
+} from "../resources/template.js";
+
+const ROW_TEMPLATE = "db://tables/{table}/rows/{id}";
+
+describe("parseUriTemplate", () => {
+	it("should split literals and variables", () => {
+		expect(parseUriTemplate(ROW_TEMPLATE)).toEqual([
+			{ type: "literal", value: "db://tables/" },
+			{ type: "variable", name: "table" },
+			{ type: "literal", value: "/rows/" },
+			{ type: "variable", name: "id" },
+		]);
+	});
+
+	it("should ignore expression operators", () => {
+		expect(getTemplateVariables("file:///{+path}")).toEqual(["path"]);
+	});
+
+	it("should return the literal prefix", () => {
+		expect(getTemplatePrefix(ROW_TEMPLATE)).toBe("db://tables/");
+		expect(getTemplatePrefix("{scheme}://x")).toBe("");
+	});
+});
+
+describe("matchUriTemplate", () => {
+	it("should match the first variable", () => {
+		expect(matchUriTemplate(ROW_TEMPLATE, "db://tables/us")).toEqual({
+			values: {},
+			variable: "table",
+			value: "us",
+			offset: 12,
+			suffix: "/rows/",
+			last: false,
+		});
+	});
+
+	it("should match later variables with decoded values", () => {
+		expect(matchUriTemplate(ROW_TEMPLATE, "db://tables/my%20users/rows/")).toEqual({
+			values: { table: "my users" },
+			variable: "id",
+			value: "",
+			offset: 28,
+			suffix: "",
+			last: true,
+		});
+	});
+
+	it("should not match text that does not follow the template", () => {
+		expect(matchUriTemplate(ROW_TEMPLATE, "db://views/")).toBeNull();
+		expect(matchUriTemplate(ROW_TEMPLATE, "db://tab")).toBeNull();
+		expect(matchUriTemplate("db://static", "db://static")).toBeNull();
+	});
+});
+
+describe("expandUriTemplate", () => {
+	it("should substitute encoded values", () => {
+		expect(expandUriTemplate(ROW_TEMPLATE, { table: "my users", id: "42" })).toBe(
+			"db://tables/my%20users/rows/42",
+		);
+	});
+
+	it("should create a resource for the expanded URI", () => {
+		const template: ResourceTemplate = {
+			type: "db",
+			uriTemplate: ROW_TEMPLATE,
+			name: "Table row",
+			mimeType: "application/json",
+		};
+		expect(
+			fromResourceTemplate(template, "db://tables/users/rows/42", { table: "users", id: "42" }),
+		).toEqual({
+			type: "db",
+			uri: "db://tables/users/rows/42",
+			name: "Table row: users, 42",
+			description: undefined,
+			mimeType: "application/json",
+			data: undefined,
+		});
+	});
+});
@@ -0,0 +1,79 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "vitest";
+import {
+	coerceToolArguments,
+	getToolArgumentValues,
+	getToolResultText,
+	toolToPrompt,
+} from "../tools/tools.js";
+
+const search: Tool = {
+	name: "search",
+	description: "Search issues",
+	inputSchema: {
+		type: "object",
+		properties: {
+			limit: { type: "integer", description: "Maximum results" },
+			query: { type: "string", description: "Search query" },
+			state: { type: "string", enum: ["open", "closed"] },
+			archived: { type: "boolean" },
+		},
+		required: ["query"],
+	},
+};
+
+describe("toolToPrompt", () => {
+	it("should describe input schema properties as arguments, required first", () => {
+		expect(toolToPrompt(search)).toEqual({
+			name: "search",
+			description: "Search issues",
+			arguments: [
+				{ name: "query", description: "Search query", required: true },
+				{ name: "limit", description: "Maximum results", required: false },
+				{ name: "state", description: undefined, required: false },
+				{ name: "archived", description: undefined, required: false },
+			],
+		});
+	});
+
+	it("should handle tools without properties", () => {
+		expect(toolToPrompt({ name: "ping", inputSchema: { type: "object" } }).arguments).toEqual([]);
+	});
+});
+
+describe("getToolArgumentValues", () => {
+	it("should suggest enum and boolean values", () => {
+		expect(getToolArgumentValues(search, "state")).toEqual(["open", "closed"]);
+		expect(getToolArgumentValues(search, "archived")).toEqual(["true", "false"]);
+		expect(getToolArgumentValues(search, "query")).toEqual([]);
+	});
+});
+
+describe("coerceToolArguments", () => {
+	it("should convert values to their declared JSON types", () => {
+		expect(
+			coerceToolArguments(search, { query: "42", limit: "10", archived: "true", state: "open" }),
+		).toEqual({ query: "42", limit: 10, archived: true, state: "open" });
+	});
+
+	it("should keep invalid values as strings", () => {
+		expect(coerceToolArguments(search, { query: "bugs", limit: "ten" })).toEqual({
+			query: "bugs",
+			limit: "ten",
+		});
+	});
+});
+
+describe("getToolResultText", () => {
+	it("should join text and embedded text resources", () => {
+		expect(
+			getToolResultText({
+				content: [
+					{ type: "text", text: "Found 2 issues" },
+					{ type: "image", data: "aGVsbG8=", mimeType: "image/png" },
+					{ type: "resource", resource: { uri: "issues://1", text: "#1 Crash" } },
+				],
+			}),
+		).toBe("Found 2 issues\n#1 Crash");
+	});
+});
@@ -0,0 +1,56 @@
+import { javascript } from "@codemirror/lang-javascript";
+import { markdown } from "@codemirror/lang-markdown";
+import { EditorState, type Extension } from "@codemirror/state";
+import { describe, expect, it, vi } from "vitest";
+import { type TriggerContext, createTriggerGuard } from "../trigger-guard.js";
+
+function check(
+	doc: string,
+	extensions: Extension[] = [],
+	guard = createTriggerGuard(),
+	trigger = "@",
+): boolean {
+	const state = EditorState.create({ doc, extensions });
+	return guard({ kind: "resource", trigger, from: doc.lastIndexOf(trigger), state });
+}
+
+describe("createTriggerGuard", () => {
+	it("should trigger at the start of a word", () => {
+		expect(check("@")).toBe(true);
+		expect(check("Hello @")).toBe(true);
+		expect(check("Hello (@")).toBe(true);
+	});
+
+	it("should not trigger inside a word", () => {
+		expect(check("me@example.com")).toBe(false);
+		expect(check("a/b", [], createTriggerGuard(), "/")).toBe(false);
+		expect(check("me@", [], createTriggerGuard({ wordBoundary: false }))).toBe(true);
+	});
+
+	it("should trigger in markdown prose but not in code", () => {
+		expect(check("Hello @", [markdown()])).toBe(true);
+		expect(check("Hello `@code`", [markdown()])).toBe(false);
+		expect(check("```\n@", [markdown()])).toBe(false);
+	});
+
+	it("should only trigger in comments of programming languages", () => {
+		expect(check("const a = 1; // see @", [javascript()])).toBe(true);
+		expect(check('const a = "@', [javascript()])).toBe(false);
+		expect(check("const a = @", [javascript()])).toBe(false);
+		expect(
+			check("const a = @", [javascript()], createTriggerGuard({ proseLanguages: ["javascript"] })),
+		).toBe(true);
+		expect(check("const a = @", [javascript()], createTriggerGuard({ syntax: false }))).toBe(true);
+	});
+
+	it("should apply the custom predicate after the built-in rules", () => {
+		const predicate = vi.fn((context: TriggerContext) => context.from > 0);
+		const guard = createTriggerGuard({ predicate });
+
+		expect(check("@", [], guard)).toBe(false);
+		expect(check("Hello @", [], guard)).toBe(true);
+		expect(check("me@", [], guard)).toBe(false);
+		expect(predicate).toHaveBeenCalledTimes(2);
+		expect(predicate).toHaveBeenCalledWith(expect.objectContaining({ kind: "resource", from: 6 }));
+	});
+});
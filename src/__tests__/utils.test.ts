@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { URI_PATTERN, matchAllURIs } from "../utils";
+import { URI_PATTERN, createUriPattern, matchAllURIs } from "../utils";
 
 describe("URI_PATTERN", () => {
 	const validURIs = [
@@ -11,6 +11,7 @@ describe("URI_PATTERN", () => {
 		"@github://repo/sub", // subpath allowed
 		"@github://repo?q=1", // query params allowed
 		"@github://repo#1", // hash allowed
+		"@work+github://repo", // qualified with a server
 	];
 
 	const invalidURIs = [
@@ -24,6 +25,7 @@ describe("URI_PATTERN", () => {
 		"@github:repo", // missing //
 		"@://repo", // missing protocol
 		"@github://", // missing resource
+		"@+github://repo", // missing server
 	];
 
 	describe("test()", () => {
@@ -78,4 +80,18 @@ describe("URI_PATTERN", () => {
 			expect(matches[1][0]).toBe("@gitlab://repo2");
 		});
 	});
+
+	describe("custom prefix", () => {
+		test("should match URIs starting with the prefix", () => {
+			const pattern = createUriPattern("#");
+			expect(pattern.test("#github://repo")).toBe(true);
+			expect(pattern.test("@github://repo")).toBe(false);
+		});
+
+		test("should escape regex characters in the prefix", () => {
+			const text = "@decorator $$github://repo1 $github://repo2";
+			const matches = Array.from(matchAllURIs(text, "$$"));
+			expect(matches.map((m) => m[0])).toEqual(["$$github://repo1"]);
+		});
+	});
 });
@@ -1,22 +1,83 @@
 export { mcpExtension } from "./mcp.js";
 
 export { extractResources } from "./resources/extract.js";
+export { getContentText, toContentPart } from "./resources/resource.js";
+export { buildPromptContext, estimateTokens } from "./resources/context.js";
+export {
+	estimateResourceTokens,
+	getResourceBudgetWarning,
+	resourceBudget,
+} from "./resources/budget.js";
+export type { ResourceBudgetOptions } from "./resources/budget.js";
+export type {
+	PromptContext,
+	PromptContextBlock,
+	PromptContextNote,
+	PromptContextOptions,
+	ResourceLink,
+} from "./resources/context.js";
 
 export type {
 	Resource,
 	ResourceProvider,
 	ResourceCompletionOptions,
+	ResourceCompletionConfig,
+	ResourceContentPart,
+	ResourceContents,
+	ResourceGroupFields,
+	ResourceIcon,
+	ResourceSectionOptions,
+	ResourceTemplate,
+	SearchResourcesOptions,
 } from "./resources/resource.js";
 
 export { resourceDecorations } from "./resources/decoration.js";
 
-export { resourcesField } from "./state.js";
+export {
+	resourcesField,
+	mcpProviderField,
+	connectionStateField,
+	triggersField,
+	resourceIconsField,
+	resourceBudgetField,
+} from "./state.js";
+export type { MCPTriggers, ResourceBudget } from "./state.js";
+export type {
+	ConnectionState,
+	ConnectionStatus,
+	MCPResourceProvider,
+	MCPResourceProviderOptions,
+	ReconnectOptions,
+	ResourceSearchOptions,
+	TransportFactory,
+} from "./mcp/mcp-provider.js";
+export type { MCPServerOptions, MCPServerPool } from "./mcp/server-pool.js";
+export type { ApprovalPolicy, ApprovalRequest } from "./mcp/approval.js";
 export { resourceCompletion } from "./resources/completion.js";
+export {
+	createResourceIconRegistry,
+	getResourceIcon,
+	resourceIconOption,
+} from "./resources/icons.js";
+export type {
+	ResourceIconOptions,
+	ResourceIconRegistry,
+	ResolvedResourceIcon,
+} from "./resources/icons.js";
 
 export {
 	hoverResource,
 	createDefaultTooltip,
 } from "./resources/hover.js";
 
+export { promptDecorations } from "./prompts/decoration.js";
+export { hoverPrompt, createPromptTooltip } from "./prompts/hover.js";
+export type { HoverPromptOptions } from "./prompts/hover.js";
+
+export { renderResourcePreview, withResourcePreview } from "./resources/preview.js";
+export type { ReadResourceContents, ResourcePreviewOptions } from "./resources/preview.js";
+
 export { resourceInputFilter } from "./resources/input-filter.js";
+export { createTriggerGuard } from "./trigger-guard.js";
+export type { TriggerContext, TriggerGuardOptions } from "./trigger-guard.js";
 export { resourceTheme } from "./theme.js";
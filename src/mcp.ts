@@ -1,28 +1,130 @@
-import { type Completion, type CompletionContext, autocompletion } from "@codemirror/autocomplete";
+import {
+	type Completion,
+	type CompletionContext,
+	type CompletionResult,
+	autocompletion,
+	insertCompletionText,
+	pickedCompletion,
+	startCompletion,
+} from "@codemirror/autocomplete";
 import type { Extension } from "@codemirror/state";
-import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { EditorView } from "@codemirror/view";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import {
-	GetPromptResultSchema,
-	type Implementation,
-	ListPromptsResultSchema,
-	type Resource as MCPResource,
-	type PromptMessage,
+import type {
+	Implementation,
+	Resource as MCPResource,
+	Prompt,
+	PromptArgument,
+	PromptMessage,
+	Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { MCPResourceProvider } from "./mcp/mcp-provider.js";
-import { resourceCompletion } from "./resources/completion.js";
+import { type ApprovalPolicy, approvalsField, requestApproval } from "./mcp/approval.js";
+import { commandsField, trackCommand } from "./mcp/commands.js";
+import { connectionTracking } from "./mcp/connection.js";
+import type {
+	ReconnectOptions,
+	ResourceSearchOptions,
+	TransportFactory,
+} from "./mcp/mcp-provider.js";
+import { type MCPServerOptions, MCPServerPool } from "./mcp/server-pool.js";
+import { connectionStatusPanel } from "./mcp/status-panel.js";
+import { resourceSubscriptions } from "./mcp/subscriptions.js";
+import {
+	type PromptCommand,
+	createCommandPattern,
+	formatArgumentValue,
+	formatPromptSignature,
+	getMissingArguments,
+	getPromptArguments,
+	hasPromptArguments,
+	parsePromptCommand,
+} from "./prompts/arguments.js";
+import { promptDecorations } from "./prompts/decoration.js";
+import { type HoverPromptOptions, hoverPrompt } from "./prompts/hover.js";
+import { renderPromptMessages } from "./prompts/render.js";
+import { type ResourceBudgetOptions, resourceBudget } from "./resources/budget.js";
+import { matchResourceMention, resourceCompletion } from "./resources/completion.js";
 import { resourceDecorations } from "./resources/decoration.js";
 import { type HoverResourceOptions, hoverResource } from "./resources/hover.js";
+import {
+	type ResourceIconOptions,
+	createResourceIconRegistry,
+	resourceIconOption,
+} from "./resources/icons.js";
 import { resourceInputFilter } from "./resources/input-filter.js";
-import { type Resource, toMCPResource } from "./resources/resource.js";
-import { mcpOptionsField, promptsField, resourcesField, updatePrompts } from "./state.js";
+import { type Resource, type ResourceSectionOptions, toMCPResource } from "./resources/resource.js";
+import {
+	DEFAULT_TRIGGERS,
+	type MCPTriggers,
+	type ToolResult,
+	connectionStateField,
+	getTriggers,
+	mcpOptionsField,
+	mcpProviderField,
+	promptsField,
+	resourceIconsField,
+	resourcesField,
+	toolsField,
+	triggersField,
+	updatePrompts,
+	updateResources,
+	updateTools,
+} from "./state.js";
 import { resourceTheme } from "./theme.js";
+import {
+	coerceToolArguments,
+	getToolArgumentValues,
+	getToolResultText,
+	toolToPrompt,
+} from "./tools/tools.js";
+import {
+	type TriggerContext,
+	type TriggerGuardOptions,
+	createTriggerGuard,
+} from "./trigger-guard.js";
+import { escapeRegExp, getAbortSignal } from "./utils.js";
 
 export interface MCPOptions {
-	/** Transport layer for MCP client-server communication */
-	transport: Transport;
+	/**
+	 * Transport layer for MCP client-server communication, when connecting to a single server.
+	 * Pass a factory to reconnect with a fresh transport after the connection closes.
+	 */
+	transport?: Transport | TransportFactory;
+	/**
+	 * Named servers to connect to at once, merged in completions with a per-server badge.
+	 * Used instead of `transport`.
+	 */
+	servers?: MCPServerOptions[];
 	/** Optional implementation-specific client options */
 	clientOptions?: Implementation;
+	/**
+	 * Subscribe to mentioned resources and refresh them on `notifications/resources/updated`,
+	 * defaults to true. Only used when the server supports subscriptions.
+	 */
+	subscribeToResources?: boolean;
+	/** Maximum number of pages to follow for paginated list requests, defaults to 20 */
+	maxPages?: number;
+	/** How long listed resources are cached, in milliseconds, defaults to 30s. 0 disables caching */
+	cacheTtl?: number;
+	/**
+	 * Search resources on the server as the user types, instead of listing them all.
+	 * Used with `transport`; pass `search` per server with `servers`.
+	 */
+	resourceSearch?: ResourceSearchOptions;
+	/**
+	 * Group resource completions into sections by type, MIME family or server,
+	 * e.g. `{ groupBy: "server" }`. Not grouped by default.
+	 */
+	resourceSections?: ResourceSectionOptions;
+	/**
+	 * Icon kinds by resource type and MIME type, added to the defaults.
+	 * Icons sent by servers are shown unless `serverIcons` is false.
+	 */
+	resourceIcons?: ResourceIconOptions;
+	/** Reconnect with exponential backoff when connecting fails or the connection closes, false disables */
+	reconnect?: ReconnectOptions | false;
+	/** Show a panel below the editor with the connection state of every server, defaults to false */
+	statusPanel?: boolean;
 	/** Optional logger for debugging, defaults to console */
 	logger?: typeof console;
 	/** Optional callback when a resource is clicked */
@@ -33,24 +135,147 @@ export interface MCPOptions {
 	onResourceMouseOut?: (resource: MCPResource) => void;
 	/** Optional callback when a prompt is triggered */
 	onPromptSubmit?: (opts: { messages: PromptMessage[] }) => void;
+	/**
+	 * What running a prompt does: `"submit"` passes its messages to `onPromptSubmit`,
+	 * `"insert"` replaces the command with the text of the messages, embedded resources
+	 * becoming mentions. Defaults to `"submit"` with `onPromptSubmit`, `"insert"` without.
+	 */
+	promptMode?: "submit" | "insert";
+	/**
+	 * Tool calls and prompts wait for the user to approve them in a widget under the current line,
+	 * unless auto-approved by this policy
+	 */
+	approvalPolicy?: ApprovalPolicy;
+	/**
+	 * Characters starting resource mentions, prompt commands and tool commands,
+	 * defaults to `@`, `/` and `!`. Tool commands only complete at the start of a line or after
+	 * whitespace.
+	 */
+	triggers?: Partial<MCPTriggers>;
+	/**
+	 * Only open completions for triggers at the start of a word, in prose or comments.
+	 * Pass options to tune the checks or add a custom predicate. Disabled by default.
+	 */
+	triggerGuard?: boolean | TriggerGuardOptions;
+	/**
+	 * Optional callback with the result of a tool command.
+	 * Without it, the text content of the result replaces the command.
+	 */
+	onToolResult?: (opts: ToolResult) => void;
 
 	/** Optional hover options */
 	hoverOptions?: HoverResourceOptions;
+	/** Optional hover options of prompt commands */
+	promptHoverOptions?: HoverPromptOptions;
+	/**
+	 * Token budget of mentioned resources, e.g. `{ maxTokens: 100_000 }`: shows the estimated total
+	 * below the editor and warns about mentions over budget. Disabled by default.
+	 */
+	resourceBudget?: ResourceBudgetOptions;
+}
+
+// Completion tagged with the server it comes from
+interface MCPCompletion extends Completion {
+	server?: string;
 }
 
 interface CompletionHandlerContext {
 	word: { from: number; to: number } | null;
+	trigger: string;
 	connected: boolean;
-	resourceProvider: MCPResourceProvider;
-	client: Client;
+	resourceProvider: MCPServerPool;
 	logger?: typeof console;
 	context: CompletionContext;
 }
 
+// Server names are only worth showing when several servers are connected
+function getServerLabel(resourceProvider: MCPServerPool, server: string): string | undefined {
+	return resourceProvider.getServerNames().length > 1 ? server : undefined;
+}
+
+async function submitPrompt(
+	view: EditorView,
+	resourceProvider: MCPServerPool,
+	prompt: Prompt,
+	args: Record<string, string> | undefined,
+	range: { from: number; to: number },
+	logger?: typeof console,
+) {
+	const mcpOptions = view.state.field(mcpOptionsField);
+	const mode = mcpOptions.promptMode ?? (mcpOptions.onPromptSubmit ? "submit" : "insert");
+	if (mode === "submit" && !mcpOptions.onPromptSubmit) {
+		logger?.error("No onPromptSubmit callback set");
+		throw new Error("No onPromptSubmit callback set");
+	}
+
+	const missing = args ? getMissingArguments(prompt, args) : [];
+	if (missing.length > 0) {
+		const names = missing.map((argument) => argument.name).join(", ");
+		logger?.error(`Missing required arguments for prompt ${prompt.name}: ${names}`);
+		throw new Error(`Missing required arguments for prompt ${prompt.name}: ${names}`);
+	}
+
+	// Edits made meanwhile move the command, or cancel it when they change its text
+	const command = trackCommand(view, range);
+	try {
+		const approved = await requestApproval(
+			view,
+			{
+				kind: "prompt",
+				name: prompt.name,
+				arguments: args ?? {},
+				server: getServerLabel(resourceProvider, resourceProvider.getPromptServer(prompt.name)),
+			},
+			mcpOptions.approvalPolicy,
+			command.signal,
+		);
+		if (!approved) {
+			logger?.log(`Prompt ${prompt.name} was not approved`);
+			return;
+		}
+
+		// Load the prompt template from the server owning it
+		const promptResult = await resourceProvider.getPrompt(prompt.name, args);
+
+		if (mode === "submit") {
+			mcpOptions.onPromptSubmit?.(promptResult);
+			return;
+		}
+
+		const current = command.getRange();
+		if (!current) {
+			logger?.log(`Dropped the messages of prompt ${prompt.name}, its command was edited`);
+			return;
+		}
+
+		// Expand the command into the messages, as if typed with their resources mentioned
+		const { text, resources } = renderPromptMessages(
+			promptResult.messages,
+			getTriggers(view.state).resource,
+		);
+		const server = resourceProvider.getPromptServer(prompt.name);
+		view.dispatch({
+			changes: { from: current.from, to: current.to, insert: text },
+			selection: { anchor: current.from + text.length },
+			effects:
+				resources.length > 0
+					? updateResources.of(
+							new Map(resources.map((resource) => [resource.uri, { ...resource, server }])),
+						)
+					: [],
+		});
+	} catch (error) {
+		logger?.error(`Failed to run prompt ${prompt.name}:`, error);
+	} finally {
+		command.finish();
+	}
+}
+
 async function handlePromptCompletion({
 	word,
+	trigger,
 	connected,
-	client,
+	resourceProvider,
 	logger,
 	context,
 }: CompletionHandlerContext) {
@@ -63,25 +288,15 @@ async function handlePromptCompletion({
 
 	logger?.log("Fetching prompts from MCP server");
 
+	const signal = getAbortSignal(context);
 	try {
-		// Fetch prompts from MCP server
-		const response = await client.request({ method: "prompts/list" }, ListPromptsResultSchema);
-		const prompts = response.prompts;
-		// TODO: Implement prompt with args
-		// Not implemented yet, ideally looks a bit like slack completions
-		// /read_table [table_name]
-		// /read_table [table_name] [column_name]
-		// /read_table [table_name] [column_name] [row_id]
-		const promptWithoutArgs = prompts.filter(
-			(prompt) => !prompt.args || Object.keys(prompt.args).length === 0,
-		);
-		if (promptWithoutArgs.length === 0) {
+		// Fetch prompts from MCP server, following pagination cursors
+		const prompts = await resourceProvider.getPrompts(signal);
+		if (signal.aborted || prompts.length === 0) {
 			return null;
 		}
 
-		const effects = updatePrompts.of(
-			new Map(promptWithoutArgs.map((prompt) => [prompt.name, prompt])),
-		);
+		const effects = updatePrompts.of(new Map(prompts.map((prompt) => [prompt.name, prompt])));
 
 		if (context.view) {
 			context.view.dispatch({ effects });
@@ -91,26 +306,27 @@ async function handlePromptCompletion({
 
 		// // Convert prompts to completion items
 		const options = prompts.map(
-			(prompt): Completion => ({
-				label: `/${prompt.name}`,
-				displayLabel: prompt.name,
+			(prompt): MCPCompletion => ({
+				label: `${trigger}${prompt.name}`,
+				displayLabel: hasPromptArguments(prompt)
+					? `${prompt.name} ${formatPromptSignature(prompt)}`
+					: prompt.name,
 				detail: prompt.description,
 				type: "keyword",
 				boost: prompt.description ? 100 : 0,
-				apply: async (view, _completion, _from, _to) => {
-					const mcpOptions = view.state.field(mcpOptionsField);
-					if (!mcpOptions.onPromptSubmit) {
-						logger?.error("No onPromptSubmit callback set");
-						throw new Error("No onPromptSubmit callback set");
+				server: resourceProvider.getPromptServer(prompt.name),
+				apply: async (view, completion, from, to) => {
+					// Walk the user through the arguments before submitting
+					if (hasPromptArguments(prompt)) {
+						view.dispatch({
+							...insertCompletionText(view.state, `${trigger}${prompt.name} `, from, to),
+							annotations: pickedCompletion.of(completion),
+						});
+						startCompletion(view);
+						return;
 					}
 
-					// Load the prompt template
-					const promptResult = await client.request(
-						{ method: "prompts/get", params: { name: prompt.name } },
-						GetPromptResultSchema,
-					);
-
-					mcpOptions.onPromptSubmit(promptResult);
+					await submitPrompt(view, resourceProvider, prompt, undefined, { from, to }, logger);
 				},
 			}),
 		);
@@ -120,25 +336,393 @@ async function handlePromptCompletion({
 			options,
 		};
 	} catch (error) {
+		if (signal.aborted) return null;
 		logger?.error("Failed to fetch MCP prompts:", error);
 		return null;
 	}
 }
 
+interface PromptArgumentHandlerContext {
+	command: PromptCommand;
+	trigger: string;
+	connected: boolean;
+	resourceProvider: MCPServerPool;
+	logger?: typeof console;
+	context: CompletionContext;
+}
+
+function argumentValueCompletion(value: string, argument: PromptArgument): Completion {
+	return {
+		label: value,
+		detail: argument.name,
+		type: "constant",
+		apply: (view, completion, from, to) => {
+			view.dispatch({
+				...insertCompletionText(view.state, `${formatArgumentValue(value)} `, from, to),
+				annotations: pickedCompletion.of(completion),
+			});
+			startCompletion(view);
+		},
+	};
+}
+
+interface CommandArgumentContext {
+	command: PromptCommand;
+	/** Prompt, or tool described as a prompt, whose arguments are filled in */
+	prompt: Prompt;
+	trigger: string;
+	/** Suggest values for the argument being typed */
+	suggest: (argument: PromptArgument, value: string, signal: AbortSignal) => Promise<string[]>;
+	/** Run the command once every required argument is set, `to` being the end of the command */
+	run: (view: EditorView, args: Record<string, string>, to: number) => Promise<void>;
+	context: CompletionContext;
+}
+
+// Slack-style completion of the arguments of a prompt or tool command
+async function commandArgumentCompletion({
+	command,
+	prompt,
+	trigger,
+	suggest,
+	run,
+	context,
+}: CommandArgumentContext): Promise<CompletionResult | null> {
+	const { current } = command;
+	const values = current.value ? [...command.values, current.value] : command.values;
+	const args = getPromptArguments(prompt, values);
+	const missing = getMissingArguments(prompt, args);
+	const argument = prompt.arguments?.[command.values.length];
+
+	const options: Completion[] = [];
+
+	if (argument) {
+		const signal = getAbortSignal(context);
+		let suggestions: string[];
+		try {
+			suggestions = await suggest(argument, current.value, signal);
+		} catch (error) {
+			if (signal.aborted) return null;
+			throw error;
+		}
+		// Suggestions for a value that has been typed on since
+		if (signal.aborted) return null;
+
+		if (!suggestions.includes(current.value)) {
+			options.push({
+				label: current.value || argument.name,
+				displayLabel: current.value ? `${argument.name}: ${current.value}` : `[${argument.name}]`,
+				detail: argument.required ? "required" : "optional",
+				info: argument.description,
+				type: "variable",
+				boost: missing.length > 0 ? 1 : 0,
+				apply: (view, completion, from, to) => {
+					if (current.value) {
+						view.dispatch({
+							...insertCompletionText(
+								view.state,
+								`${formatArgumentValue(current.value)} `,
+								from,
+								to,
+							),
+							annotations: pickedCompletion.of(completion),
+						});
+					}
+					startCompletion(view);
+				},
+			});
+		}
+
+		for (const suggestion of suggestions) {
+			options.push(argumentValueCompletion(suggestion, argument));
+		}
+	}
+
+	if (missing.length === 0) {
+		options.push({
+			label: `${trigger}${prompt.name}`,
+			displayLabel: `Run ${trigger}${prompt.name}`,
+			detail: Object.entries(args)
+				.map(([name, value]) => `${name}=${value}`)
+				.join(" "),
+			info: prompt.description,
+			type: "keyword",
+			boost: 2,
+			apply: async (view, _completion, _from, to) => {
+				await run(view, args, to);
+			},
+		});
+	}
+
+	if (options.length === 0) return null;
+
+	return {
+		from: current.from,
+		to: current.to,
+		options,
+		filter: false,
+	};
+}
+
+async function handlePromptArgumentCompletion({
+	command,
+	trigger,
+	connected,
+	resourceProvider,
+	logger,
+	context,
+}: PromptArgumentHandlerContext): Promise<CompletionResult | null> {
+	const prompt = context.state.field(promptsField, false)?.get(command.name);
+	if (!prompt || !hasPromptArguments(prompt)) return null;
+	if (!connected) {
+		logger?.error("MCP client is not connected");
+		return null;
+	}
+
+	return commandArgumentCompletion({
+		command,
+		prompt,
+		trigger,
+		// Ask the server for argument values matching what has been typed so far
+		suggest: (argument, value, signal) =>
+			resourceProvider.completeArgument(
+				{ type: "ref/prompt", name: prompt.name },
+				{ name: argument.name, value },
+				signal,
+			),
+		run: (view, args, to) =>
+			submitPrompt(view, resourceProvider, prompt, args, { from: command.from, to }, logger),
+		context,
+	});
+}
+
+async function callTool(
+	view: EditorView,
+	resourceProvider: MCPServerPool,
+	tool: Tool,
+	args: Record<string, string>,
+	range: { from: number; to: number },
+	logger?: typeof console,
+) {
+	const toolArguments = coerceToolArguments(tool, args);
+	const mcpOptions = view.state.field(mcpOptionsField);
+	// Edits made meanwhile move the command, or cancel it when they change its text
+	const command = trackCommand(view, range);
+	try {
+		const approved = await requestApproval(
+			view,
+			{
+				kind: "tool",
+				name: tool.name,
+				arguments: toolArguments,
+				server: getServerLabel(resourceProvider, resourceProvider.getToolServer(tool.name)),
+			},
+			mcpOptions.approvalPolicy,
+			command.signal,
+		);
+		if (!approved) {
+			logger?.log(`Tool ${tool.name} was not approved`);
+			return;
+		}
+
+		const result = await resourceProvider.callTool(tool.name, toolArguments);
+
+		if (mcpOptions.onToolResult) {
+			mcpOptions.onToolResult({ tool, arguments: toolArguments, result });
+			return;
+		}
+
+		if (result.isError) {
+			logger?.error(`Tool ${tool.name} failed:`, getToolResultText(result));
+			return;
+		}
+
+		const current = command.getRange();
+		if (!current) {
+			logger?.log(`Dropped the result of tool ${tool.name}, its command was edited`);
+			return;
+		}
+
+		// Replace the command with the text content of the result
+		view.dispatch({
+			changes: { from: current.from, to: current.to, insert: getToolResultText(result) },
+		});
+	} catch (error) {
+		logger?.error(`Failed to call tool ${tool.name}:`, error);
+	} finally {
+		command.finish();
+	}
+}
+
+async function handleToolCompletion({
+	word,
+	connected,
+	resourceProvider,
+	logger,
+	context,
+	trigger,
+}: CompletionHandlerContext): Promise<CompletionResult | null> {
+	if (!word) return null;
+	if (word.from === word.to && !context.explicit) return null;
+	if (!connected) {
+		logger?.error("MCP client is not connected");
+		return null;
+	}
+
+	const signal = getAbortSignal(context);
+	try {
+		const tools = await resourceProvider.getTools(signal);
+		if (signal.aborted || tools.length === 0) {
+			return null;
+		}
+
+		if (context.view) {
+			context.view.dispatch({
+				effects: updateTools.of(new Map(tools.map((tool) => [tool.name, tool]))),
+			});
+		}
+
+		const options = tools.map((tool): MCPCompletion => {
+			const prompt = toolToPrompt(tool);
+			return {
+				label: `${trigger}${tool.name}`,
+				displayLabel: hasPromptArguments(prompt)
+					? `${tool.name} ${formatPromptSignature(prompt)}`
+					: tool.name,
+				detail: tool.description,
+				type: "function",
+				boost: tool.description ? 100 : 0,
+				server: resourceProvider.getToolServer(tool.name),
+				apply: async (view, completion, from, to) => {
+					// Walk the user through the arguments before calling the tool
+					if (hasPromptArguments(prompt)) {
+						view.dispatch({
+							...insertCompletionText(view.state, `${trigger}${tool.name} `, from, to),
+							annotations: pickedCompletion.of(completion),
+						});
+						startCompletion(view);
+						return;
+					}
+
+					await callTool(view, resourceProvider, tool, {}, { from, to }, logger);
+				},
+			};
+		});
+
+		return {
+			from: word.from,
+			options,
+		};
+	} catch (error) {
+		if (signal.aborted) return null;
+		logger?.error("Failed to fetch MCP tools:", error);
+		return null;
+	}
+}
+
+async function handleToolArgumentCompletion({
+	command,
+	connected,
+	resourceProvider,
+	logger,
+	context,
+	trigger,
+}: PromptArgumentHandlerContext): Promise<CompletionResult | null> {
+	const tool = context.state.field(toolsField, false)?.get(command.name);
+	if (!tool) return null;
+	const prompt = toolToPrompt(tool);
+	if (!hasPromptArguments(prompt)) return null;
+	if (!connected) {
+		logger?.error("MCP client is not connected");
+		return null;
+	}
+
+	return commandArgumentCompletion({
+		command,
+		prompt,
+		trigger,
+		// Tools have no server-side completion, suggest the values allowed by the input schema
+		suggest: async (argument, value) =>
+			getToolArgumentValues(tool, argument.name).filter((option) => option.startsWith(value)),
+		run: (view, args, to) =>
+			callTool(view, resourceProvider, tool, args, { from: command.from, to }, logger),
+		context,
+	});
+}
+
+// Renders the server a completion comes from, when several servers are connected
+const serverBadge = {
+	render(completion: MCPCompletion) {
+		if (!completion.server) return null;
+		const badge = document.createElement("span");
+		badge.className = "cm-mcp-server-badge";
+		badge.textContent = completion.server;
+		return badge;
+	},
+	position: 60,
+};
+
 export function mcpExtension(options: MCPOptions): Extension {
 	const logger = options.logger;
-	const resourceProvider = new MCPResourceProvider(
-		options.transport,
-		options.clientOptions,
-		logger,
+	const servers =
+		options.servers ??
+		(options.transport
+			? [{ name: "default", transport: options.transport, search: options.resourceSearch }]
+			: []);
+	if (servers.length === 0) {
+		throw new Error("mcpExtension requires a transport or at least one server");
+	}
+	const resourceProvider = new MCPServerPool(servers, options.clientOptions, logger, {
+		maxPages: options.maxPages,
+		cacheTtl: options.cacheTtl,
+		reconnect: options.reconnect,
+	});
+
+	const formatResource = (resource: Resource): Partial<MCPCompletion> => ({
+		server: resource.server,
+	});
+
+	// Created once so in-flight resource pages are shared across keystrokes
+	const resourceSource = resourceCompletion(
+		(signal) => resourceProvider.getResources(signal),
+		formatResource,
+		{
+			getResourcePages: () => resourceProvider.getResourcePages(),
+			searchResources: resourceProvider.supportsSearch()
+				? (query, searchOptions) => resourceProvider.searchResources(query, searchOptions)
+				: undefined,
+			...options.resourceSections,
+			getResourceTemplates: (signal) => resourceProvider.getResourceTemplates(signal),
+			completeTemplateArgument: (template, argument, signal) =>
+				resourceProvider.completeArgument(
+					{ type: "ref/resource", uri: template.uriTemplate },
+					argument,
+					signal,
+				),
+		},
 	);
 
+	const triggers = { ...DEFAULT_TRIGGERS, ...options.triggers };
+	const promptWordPattern = new RegExp(`${escapeRegExp(triggers.prompt)}(\\w+)?`);
+	const promptCommandPattern = createCommandPattern(triggers.prompt);
+	// Commands only start words, so exclamation marks in prose ("Thanks!") do not list tools
+	const toolWordPattern = new RegExp(`(?<=^|\\s)${escapeRegExp(triggers.tool)}(\\w+)?`);
+	const toolCommandPattern = createCommandPattern(triggers.tool);
+	const triggerGuard = options.triggerGuard
+		? createTriggerGuard(options.triggerGuard === true ? {} : options.triggerGuard)
+		: undefined;
+
 	const completion = autocompletion({
+		addToOptions: servers.length > 1 ? [resourceIconOption, serverBadge] : [resourceIconOption],
 		override: [
 			async (context: CompletionContext) => {
-				// Handle resource completions (@)
-				const resourceWord = context.matchBefore(/@(\w+)?/);
+				const allowed = (kind: TriggerContext["kind"], from: number) =>
+					!triggerGuard ||
+					triggerGuard({ kind, trigger: triggers[kind], from, state: context.state });
+
+				// Handle resource completions (@) and resource template variables (@scheme://path/)
+				const resourceWord = matchResourceMention(context, triggers.resource);
 				if (resourceWord) {
+					if (!allowed("resource", resourceWord.from)) return null;
 					const connected = await resourceProvider.isConnected();
 					if (!connected) {
 						logger?.error("MCP client is not connected");
@@ -147,19 +731,69 @@ export function mcpExtension(options: MCPOptions): Extension {
 
 					logger?.log("Fetching resources from MCP server");
 
-					return resourceCompletion(() => resourceProvider.getResources())(context);
+					return resourceSource(context);
+				}
+
+				// Handle prompt argument completions (/prompt arg1 arg2) of known prompts, before prompt
+				// names so that values containing the trigger, like `src/main.ts`, complete as values
+				const commandWord = context.matchBefore(promptCommandPattern);
+				const command =
+					commandWord &&
+					parsePromptCommand(commandWord.text, commandWord.from, promptCommandPattern);
+				if (command && context.state.field(promptsField, false)?.has(command.name)) {
+					if (!allowed("prompt", command.from)) return null;
+					return handlePromptArgumentCompletion({
+						command,
+						trigger: triggers.prompt,
+						connected: await resourceProvider.isConnected(),
+						resourceProvider,
+						logger,
+						context,
+					});
+				}
+
+				// Handle tool argument completions (!tool arg1 arg2)
+				const toolCommandWord = context.matchBefore(toolCommandPattern);
+				const toolCommand =
+					toolCommandWord &&
+					parsePromptCommand(toolCommandWord.text, toolCommandWord.from, toolCommandPattern);
+				if (toolCommand && context.state.field(toolsField, false)?.has(toolCommand.name)) {
+					if (!allowed("tool", toolCommand.from)) return null;
+					return handleToolArgumentCompletion({
+						command: toolCommand,
+						connected: await resourceProvider.isConnected(),
+						resourceProvider,
+						logger,
+						context,
+						trigger: triggers.tool,
+					});
 				}
 
 				// Handle prompt completions (/)
-				const promptWord = context.matchBefore(/\/(\w+)?/);
+				const promptWord = context.matchBefore(promptWordPattern);
 				if (promptWord) {
+					if (!allowed("prompt", promptWord.from)) return null;
 					return handlePromptCompletion({
 						connected: await resourceProvider.isConnected(),
 						resourceProvider,
-						client: resourceProvider.getClient(),
 						logger,
 						context,
 						word: promptWord,
+						trigger: triggers.prompt,
+					});
+				}
+
+				// Handle tool completions (!)
+				const toolWord = context.matchBefore(toolWordPattern);
+				if (toolWord) {
+					if (!allowed("tool", toolWord.from)) return null;
+					return handleToolCompletion({
+						connected: await resourceProvider.isConnected(),
+						resourceProvider,
+						logger,
+						context,
+						word: toolWord,
+						trigger: triggers.tool,
 					});
 				}
 
@@ -180,15 +814,39 @@ export function mcpExtension(options: MCPOptions): Extension {
 		resourcesField,
 		promptsField,
 		completion,
+		toolsField,
 		resourceTheme,
-		hoverResource(options.hoverOptions ?? {}),
+		hoverResource({
+			readResource: (uri, signal) => resourceProvider.readResourceContents(uri, signal),
+			...options.hoverOptions,
+		}),
 		resourceDecorations,
+		hoverPrompt(options.promptHoverOptions),
+		promptDecorations,
 		resourceInputFilter,
+		triggersField.init(() => triggers),
+		resourceIconsField.init(() => createResourceIconRegistry(options.resourceIcons)),
 		mcpOptionsField.init(() => ({
 			onResourceClick: adaptResource(options.onResourceClick),
 			onResourceMouseOver: adaptResource(options.onResourceMouseOver),
 			onResourceMouseOut: adaptResource(options.onResourceMouseOut),
 			onPromptSubmit: options.onPromptSubmit,
+			onToolResult: options.onToolResult,
+			approvalPolicy: options.approvalPolicy,
+			promptMode: options.promptMode,
 		})),
+		approvalsField,
+		commandsField,
+		mcpProviderField.init(() => resourceProvider),
+		connectionStateField.init(() => resourceProvider.getConnectionStates()),
+		connectionTracking(resourceProvider),
+		options.statusPanel ? connectionStatusPanel(resourceProvider) : [],
+		options.resourceBudget
+			? resourceBudget({
+					readResource: (uri, signal) => resourceProvider.readResourceContents(uri, signal),
+					...options.resourceBudget,
+				})
+			: [],
+		options.subscribeToResources === false ? [] : resourceSubscriptions(resourceProvider, logger),
 	];
 }
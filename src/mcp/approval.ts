@@ -0,0 +1,153 @@
+import { StateEffect, StateField } from "@codemirror/state";
+import { Decoration, type DecorationSet, EditorView, WidgetType } from "@codemirror/view";
+
+export interface ApprovalRequest {
+	/** Whether a tool is called or a prompt is loaded */
+	kind: "tool" | "prompt";
+	/** Name of the tool or prompt */
+	name: string;
+	/** Arguments the tool or prompt is called with */
+	arguments: Record<string, unknown>;
+	/** Server owning the tool or prompt */
+	server?: string;
+}
+
+export interface ApprovalPolicy {
+	/** Names of tools and prompts that run without confirmation, or a predicate deciding it */
+	autoApprove?: string[] | ((request: ApprovalRequest) => boolean);
+}
+
+interface PendingApproval {
+	id: number;
+	pos: number;
+	request: ApprovalRequest;
+	resolve: (approved: boolean) => void;
+}
+
+const addApproval = StateEffect.define<PendingApproval>();
+const removeApproval = StateEffect.define<number>();
+
+let nextApprovalId = 0;
+
+class ApprovalWidget extends WidgetType {
+	constructor(readonly approval: PendingApproval) {
+		super();
+	}
+
+	eq(other: ApprovalWidget) {
+		return other.approval.id === this.approval.id;
+	}
+
+	toDOM(view: EditorView) {
+		const { request } = this.approval;
+		const dom = document.createElement("div");
+		dom.className = "cm-mcp-approval";
+
+		const title = document.createElement("div");
+		title.className = "cm-mcp-approval-title";
+		const server = request.server ? ` (${request.server})` : "";
+		title.textContent = `${request.kind === "tool" ? "Call tool" : "Run prompt"} ${request.name}${server}?`;
+		dom.appendChild(title);
+
+		const args = document.createElement("pre");
+		args.className = "cm-mcp-approval-arguments";
+		args.textContent = JSON.stringify(request.arguments, null, 2);
+		dom.appendChild(args);
+
+		const buttons = document.createElement("div");
+		buttons.className = "cm-mcp-approval-buttons";
+		for (const approved of [true, false]) {
+			const button = document.createElement("button");
+			button.type = "button";
+			button.className = approved ? "cm-mcp-approval-approve" : "cm-mcp-approval-deny";
+			button.textContent = approved ? "Approve" : "Deny";
+			button.addEventListener("click", (e) => {
+				e.preventDefault();
+				view.dispatch({ effects: removeApproval.of(this.approval.id) });
+				this.approval.resolve(approved);
+			});
+			buttons.appendChild(button);
+		}
+		dom.appendChild(buttons);
+
+		return dom;
+	}
+
+	ignoreEvent() {
+		return true;
+	}
+}
+
+// StateField holding the pending approvals, rendered as block widgets under their line
+export const approvalsField = StateField.define<DecorationSet>({
+	create() {
+		return Decoration.none;
+	},
+	update(approvals, tr) {
+		let updated = approvals.map(tr.changes);
+		for (const e of tr.effects) {
+			if (e.is(addApproval)) {
+				updated = updated.update({
+					add: [
+						Decoration.widget({
+							widget: new ApprovalWidget(e.value),
+							block: true,
+							side: 1,
+						}).range(e.value.pos),
+					],
+				});
+			} else if (e.is(removeApproval)) {
+				updated = updated.update({
+					filter: (_from, _to, decoration) =>
+						(decoration.spec.widget as ApprovalWidget).approval.id !== e.value,
+				});
+			}
+		}
+		return updated;
+	},
+	provide: (field) => EditorView.decorations.from(field),
+});
+
+function isAutoApproved(request: ApprovalRequest, policy?: ApprovalPolicy): boolean {
+	const autoApprove = policy?.autoApprove;
+	if (typeof autoApprove === "function") return autoApprove(request);
+	return autoApprove?.includes(request.name) ?? false;
+}
+
+/**
+ * Ask the user to approve a tool call or prompt with a widget under the current line,
+ * unless the policy auto-approves it. Resolves with whether it was approved,
+ * false once `signal` is aborted.
+ */
+export function requestApproval(
+	view: EditorView,
+	request: ApprovalRequest,
+	policy?: ApprovalPolicy,
+	signal?: AbortSignal,
+): Promise<boolean> {
+	if (signal?.aborted) return Promise.resolve(false);
+	if (isAutoApproved(request, policy)) return Promise.resolve(true);
+
+	return new Promise((resolve) => {
+		const id = nextApprovalId++;
+		const pos = view.state.doc.lineAt(view.state.selection.main.head).to;
+		const cancel = () => {
+			resolve(false);
+			// Aborted during an update, where dispatching is not allowed
+			queueMicrotask(() => view.dispatch({ effects: removeApproval.of(id) }));
+		};
+		signal?.addEventListener("abort", cancel, { once: true });
+
+		view.dispatch({
+			effects: addApproval.of({
+				id,
+				pos,
+				request,
+				resolve: (approved) => {
+					signal?.removeEventListener("abort", cancel);
+					resolve(approved);
+				},
+			}),
+		});
+	});
+}
@@ -0,0 +1,99 @@
+import { type ChangeDesc, StateEffect, StateField } from "@codemirror/state";
+import { type EditorView, ViewPlugin, type ViewUpdate } from "@codemirror/view";
+
+interface TrackedCommand {
+	id: number;
+	from: number;
+	to: number;
+	controller: AbortController;
+}
+
+export interface RunningCommand {
+	/** Aborted once the command text is edited or deleted */
+	signal: AbortSignal;
+	/** Current range of the command, null once its text is edited or deleted */
+	getRange(): { from: number; to: number } | null;
+	/** Stop tracking the command */
+	finish(): void;
+}
+
+const addCommand = StateEffect.define<TrackedCommand>();
+const removeCommand = StateEffect.define<number>();
+
+let nextCommandId = 0;
+
+// Whether changes edit the text of a command, typing right before or after it does not
+function isEdited(changes: ChangeDesc, from: number, to: number): boolean {
+	let edited = false;
+	changes.iterChangedRanges((fromA, toA) => {
+		if (fromA === toA ? fromA > from && fromA < to : fromA < to && toA > from) edited = true;
+	});
+	return edited;
+}
+
+// Abort the commands edited or deleted by an update
+const commandCancellation = ViewPlugin.fromClass(
+	class {
+		update(update: ViewUpdate) {
+			if (!update.docChanged) return;
+			const commands = update.state.field(commandsField);
+			for (const command of update.startState.field(commandsField)) {
+				if (!commands.some(({ id }) => id === command.id)) command.controller.abort();
+			}
+		}
+	},
+);
+
+// StateField holding the ranges of tool and prompt commands being run, mapped through edits
+export const commandsField = StateField.define<readonly TrackedCommand[]>({
+	create() {
+		return [];
+	},
+	update(commands, tr) {
+		let updated = commands;
+		if (tr.docChanged) {
+			updated = commands
+				.filter(({ from, to }) => !isEdited(tr.changes, from, to))
+				.map((command) => ({
+					...command,
+					from: tr.changes.mapPos(command.from, 1),
+					to: tr.changes.mapPos(command.to, -1),
+				}));
+		}
+		for (const e of tr.effects) {
+			if (e.is(addCommand)) {
+				updated = [...updated, e.value];
+			} else if (e.is(removeCommand)) {
+				updated = updated.filter(({ id }) => id !== e.value);
+			}
+		}
+		return updated;
+	},
+	provide: () => commandCancellation,
+});
+
+/**
+ * Track the range of a command while it waits for approval or the server,
+ * so its result replaces the command wherever later edits moved it
+ */
+export function trackCommand(
+	view: EditorView,
+	range: { from: number; to: number },
+): RunningCommand {
+	const id = nextCommandId++;
+	const controller = new AbortController();
+	view.dispatch({ effects: addCommand.of({ id, ...range, controller }) });
+
+	return {
+		signal: controller.signal,
+		getRange() {
+			const command = view.state.field(commandsField).find((tracked) => tracked.id === id);
+			return command ? { from: command.from, to: command.to } : null;
+		},
+		finish() {
+			if (view.state.field(commandsField).some((tracked) => tracked.id === id)) {
+				view.dispatch({ effects: removeCommand.of(id) });
+			}
+		},
+	};
+}
@@ -0,0 +1,38 @@
+import { type EditorView, ViewPlugin } from "@codemirror/view";
+import { connectionStateField, updateConnectionStates } from "../state.js";
+import type { MCPServerPool } from "./server-pool.js";
+
+/**
+ * Mirror the connection state of the servers into connectionStateField
+ */
+export function connectionTracking(pool: MCPServerPool) {
+	return ViewPlugin.fromClass(
+		class {
+			destroyed = false;
+			stopListening: () => void;
+
+			constructor(readonly view: EditorView) {
+				this.stopListening = pool.onConnectionStateChange((server, state) => {
+					this.view.dispatch({ effects: updateConnectionStates.of(new Map([[server, state]])) });
+				});
+
+				// Catch up with changes made between creating the state and the view
+				const known = view.state.field(connectionStateField);
+				const changed = [...pool.getConnectionStates()].some(
+					([server, state]) => known.get(server) !== state,
+				);
+				if (changed) {
+					queueMicrotask(() => {
+						if (this.destroyed) return;
+						this.view.dispatch({ effects: updateConnectionStates.of(pool.getConnectionStates()) });
+					});
+				}
+			}
+
+			destroy() {
+				this.destroyed = true;
+				this.stopListening();
+			}
+		},
+	);
+}
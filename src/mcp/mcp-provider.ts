@@ -1,23 +1,161 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
+	type CallToolResult,
+	CallToolResultSchema,
+	CompleteResultSchema,
+	EmptyResultSchema,
+	type GetPromptResult,
+	GetPromptResultSchema,
 	type Implementation,
+	ListPromptsResultSchema,
+	ListResourceTemplatesResultSchema,
 	ListResourcesResultSchema,
+	ListToolsResultSchema,
+	type Resource as MCPResource,
+	type Prompt,
+	type PromptReference,
 	ReadResourceResultSchema,
+	ResourceListChangedNotificationSchema,
+	type ResourceReference,
+	ResourceSchema,
+	ResourceUpdatedNotificationSchema,
+	type Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import { type Resource, type ResourceProvider, fromMCPResource } from "../resources/resource.js";
+import {
+	type Resource,
+	type ResourceContentPart,
+	type ResourceContents,
+	type ResourceProvider,
+	type ResourceTemplate,
+	type SearchResourcesOptions,
+	fromMCPResource,
+	fromMCPResourceTemplate,
+	getContentText,
+	toContentPart,
+} from "../resources/resource.js";
+import { expandUriTemplate, fromResourceTemplate } from "../resources/template.js";
+
+const DEFAULT_MAX_PAGES = 20;
+const DEFAULT_CACHE_TTL = 30_000;
+const DEFAULT_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY = 30_000;
+
+export type ConnectionStatus = "connecting" | "connected" | "disconnected" | "error";
+
+export interface ConnectionState {
+	status: ConnectionStatus;
+	/** Error of the last failed connection attempt, kept while reconnecting */
+	error?: unknown;
+}
+
+/**
+ * Creates a fresh transport for every connection attempt.
+ * Needed to reconnect with transports that cannot be restarted once closed.
+ */
+export type TransportFactory = () => Transport;
+
+export interface ReconnectOptions {
+	/** Delay before the first reconnection attempt, in milliseconds, defaults to 1s */
+	initialDelay?: number;
+	/** The delay doubles after every failed attempt, up to this maximum, defaults to 30s */
+	maxDelay?: number;
+	/** Give up after this many consecutive failed attempts, defaults to never giving up */
+	maxAttempts?: number;
+}
+
+/**
+ * How a server searches its resources: through `completion/complete` of a resource template
+ * argument, or with a tool taking the query and returning resources
+ */
+export type ResourceSearchOptions =
+	| {
+			/** URI template whose argument completion yields the matching values, e.g. `docs://{path}` */
+			template: string;
+			/** Name of the template argument searched */
+			argument: string;
+	  }
+	| {
+			/** Tool returning embedded resources, or a JSON list of resources as text */
+			tool: string;
+			/** Name of the tool argument receiving the query, defaults to `query` */
+			argument?: string;
+	  };
+
+export interface MCPResourceProviderOptions {
+	/** Maximum number of pages to follow for paginated list requests, defaults to 20 */
+	maxPages?: number;
+	/** How long listed resources are cached, in milliseconds, defaults to 30s. 0 disables caching */
+	cacheTtl?: number;
+	/** Reconnect with exponential backoff when connecting fails or the connection closes, false disables */
+	reconnect?: ReconnectOptions | false;
+	/** Search resources on the server instead of listing them all */
+	search?: ResourceSearchOptions;
+}
+
+interface CacheEntry<T> {
+	value: T;
+	expiresAt: number;
+}
+
+// Text or base64 blob content of a resource, as read or embedded in a tool result
+function toResourceContents({
+	uri,
+	mimeType,
+	...content
+}: { uri: string; mimeType?: string; text?: unknown; blob?: unknown }): ResourceContents {
+	return typeof content.blob === "string"
+		? { uri, mimeType, blob: content.blob }
+		: { uri, mimeType, text: typeof content.text === "string" ? content.text : "" };
+}
+
+/**
+ * Resources listed as JSON by a search tool, either as an array or as a `resources` array
+ */
+function parseResourceList(text: string): MCPResource[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return [];
+	}
+
+	const list = Array.isArray(parsed) ? parsed : (parsed as { resources?: unknown })?.resources;
+	if (!Array.isArray(list)) return [];
+	return list.flatMap((item) => {
+		const resource = ResourceSchema.safeParse(item);
+		return resource.success ? [resource.data] : [];
+	});
+}
 
 /**
  * MCP-specific resource provider that implements the generic ResourceProvider interface
  */
-export class MCPResourceProvider implements ResourceProvider<string> {
+export class MCPResourceProvider implements ResourceProvider<ResourceContentPart[]> {
 	private client: Client;
 	private connectedPromise: Promise<boolean>;
+	private resourceCache: CacheEntry<Resource<ResourceContentPart[]>[]> | null = null;
+	private templateCache: CacheEntry<ResourceTemplate[]> | null = null;
+	// Bumped on invalidation so listings started before it are not cached
+	private cacheGeneration = 0;
+	// Reference counts of subscribed URIs, shared by every editor using this provider
+	private subscriptions = new Map<string, number>();
+	private updateListeners = new Set<(uri: string) => void>();
+	private connectionState: ConnectionState = { status: "connecting" };
+	private stateListeners = new Set<(state: ConnectionState) => void>();
+	// Incremented for every connection attempt, so results of replaced attempts are ignored
+	private connectionId = 0;
+	private reconnectAttempts = 0;
+	private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+	// Set while the current connection is closed on purpose
+	private closing = false;
 
 	constructor(
-		transport: Transport,
+		private transport: Transport | TransportFactory,
 		clientOptions?: Implementation,
 		private logger?: typeof console,
+		private options: MCPResourceProviderOptions = {},
 	) {
 		this.client = new Client(
 			{
@@ -29,97 +167,639 @@ export class MCPResourceProvider implements ResourceProvider<string> {
 			},
 		);
 
-		this.connectedPromise = this.client
+		this.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+			this.logger?.log("MCP resource list changed");
+			this.invalidate();
+		});
+
+		this.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+			const { uri } = notification.params;
+			for (const listener of this.updateListeners) {
+				listener(uri);
+			}
+		});
+
+		this.client.onclose = () => this.handleClose();
+
+		this.connectedPromise = this.connect();
+	}
+
+	private connect(): Promise<boolean> {
+		const id = ++this.connectionId;
+		const reconnecting = id > 1;
+		this.setConnectionState({ status: "connecting", error: this.connectionState.error });
+
+		const transport = typeof this.transport === "function" ? this.transport() : this.transport;
+		return this.client
 			.connect(transport)
 			.then(() => {
+				if (id !== this.connectionId) return false;
+
 				this.logger?.log("Connected to MCP server");
+				this.reconnectAttempts = 0;
+				this.setConnectionState({ status: "connected" });
+				if (reconnecting) {
+					// The server may have changed while we were away, and forgot our subscriptions
+					this.invalidate();
+					void this.resubscribe();
+				}
 				return true;
 			})
 			.catch((error) => {
+				if (id !== this.connectionId) return false;
+
 				this.logger?.error("Failed to connect to MCP server:", error);
+				this.setConnectionState({ status: "error", error });
+				this.scheduleReconnect();
 				return false;
 			});
 	}
 
-	async getResources(): Promise<Resource<string>[]> {
+	private handleClose() {
+		// Failed attempts are handled by connect, only established connections are dropped here
+		if (this.closing || this.connectionState.status !== "connected") return;
+
+		this.logger?.warn("MCP server connection closed");
+		this.connectedPromise = Promise.resolve(false);
+		this.setConnectionState({ status: "disconnected" });
+		this.scheduleReconnect();
+	}
+
+	private scheduleReconnect() {
+		const reconnect = this.options.reconnect;
+		if (reconnect === false || this.reconnectTimer !== undefined) return;
+
+		const {
+			initialDelay = DEFAULT_RECONNECT_DELAY,
+			maxDelay = DEFAULT_MAX_RECONNECT_DELAY,
+			maxAttempts = Number.POSITIVE_INFINITY,
+		} = reconnect ?? {};
+		if (this.reconnectAttempts >= maxAttempts) {
+			this.logger?.warn(`Gave up reconnecting to MCP server after ${maxAttempts} attempts`);
+			return;
+		}
+
+		const delay = Math.min(initialDelay * 2 ** this.reconnectAttempts, maxDelay);
+		this.reconnectAttempts++;
+		this.logger?.log(`Reconnecting to MCP server in ${delay}ms`);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.connectedPromise = this.connect();
+		}, delay);
+	}
+
+	private async resubscribe() {
+		if (!(await this.supportsSubscriptions())) return;
+
+		for (const uri of this.subscriptions.keys()) {
+			try {
+				await this.client.request(
+					{ method: "resources/subscribe", params: { uri } },
+					EmptyResultSchema,
+				);
+			} catch (error) {
+				this.logger?.warn(`Could not subscribe to resource ${uri}:`, error);
+			}
+		}
+	}
+
+	private setConnectionState(state: ConnectionState) {
+		this.connectionState = state;
+		for (const listener of this.stateListeners) {
+			listener(state);
+		}
+	}
+
+	getConnectionState(): ConnectionState {
+		return this.connectionState;
+	}
+
+	/**
+	 * Name and version the server reported in its `initialize` result
+	 */
+	getServerInfo(): Implementation | undefined {
+		return this.client.getServerVersion();
+	}
+
+	/**
+	 * Listen for connection state changes, returns a function to stop listening
+	 */
+	onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+		this.stateListeners.add(listener);
+		return () => {
+			this.stateListeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Close the current connection and connect again right away, resetting the backoff
+	 */
+	async reconnect(): Promise<boolean> {
+		clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = undefined;
+		this.reconnectAttempts = 0;
+
+		this.closing = true;
+		try {
+			await this.client.close();
+		} catch (error) {
+			this.logger?.warn("Could not close MCP server connection:", error);
+		} finally {
+			this.closing = false;
+		}
+
+		this.connectedPromise = this.connect();
+		return this.connectedPromise;
+	}
+
+	/**
+	 * Replace the transport at runtime and connect with it
+	 */
+	setTransport(transport: Transport | TransportFactory): Promise<boolean> {
+		this.transport = transport;
+		return this.reconnect();
+	}
+
+	/**
+	 * Follow `nextCursor` through a paginated list request, yielding each page as it arrives.
+	 * Stops after `maxPages` pages.
+	 */
+	private async *paginate<T>(
+		method: string,
+		listPage: (cursor: string | undefined) => Promise<{ items: T[]; nextCursor?: string } | null>,
+	): AsyncGenerator<T[]> {
+		const maxPages = this.options.maxPages ?? DEFAULT_MAX_PAGES;
+		let cursor: string | undefined;
+		for (let page = 0; page < maxPages; page++) {
+			const response = await listPage(cursor);
+			if (!response) return;
+
+			yield response.items;
+
+			cursor = response.nextCursor;
+			if (!cursor) return;
+		}
+
+		this.logger?.warn(`Stopped following ${method} after ${maxPages} pages`);
+	}
+
+	/**
+	 * Stream resources page by page, following `resources/list` cursors.
+	 * Aborting the signal cancels the pending request with `notifications/cancelled`.
+	 */
+	async *getResourcePages(signal?: AbortSignal): AsyncGenerator<Resource<ResourceContentPart[]>[]> {
 		const connected = await this.connectedPromise;
 		if (!connected) {
 			throw new Error("MCP client is not connected");
 		}
 
-		try {
-			const response = await this.client.request(
-				{ method: "resources/list" },
-				ListResourcesResultSchema,
-			);
+		const cached = this.readCache(this.resourceCache);
+		if (cached) {
+			yield cached;
+			return;
+		}
 
-			const resources: Resource<string>[] = [];
+		const generation = this.cacheGeneration;
+		const resources: Resource<ResourceContentPart[]>[] = [];
+		try {
+			const pages = this.paginate("resources/list", async (cursor) => {
+				const response = await this.client.request(
+					cursor ? { method: "resources/list", params: { cursor } } : { method: "resources/list" },
+					ListResourcesResultSchema,
+					{ signal },
+				);
 
-			// Guard against malformed response data
-			if (!response.resources || !Array.isArray(response.resources)) {
-				this.logger?.warn("Malformed response: resources is not an array");
-				return [];
-			}
+				// Guard against malformed response data
+				if (!response.resources || !Array.isArray(response.resources)) {
+					this.logger?.warn("Malformed response: resources is not an array");
+					return null;
+				}
 
-			// For each resource, we could potentially read its content
-			// For now, we'll just return the resource metadata with empty data
-			for (const mcpResource of response.resources) {
-				resources.push(fromMCPResource(mcpResource, ""));
+				// Listed resources carry no content parts until read with getResource
+				return {
+					items: response.resources.map((mcpResource) =>
+						fromMCPResource<ResourceContentPart[]>(mcpResource, []),
+					),
+					nextCursor: response.nextCursor,
+				};
+			});
+			for await (const page of pages) {
+				resources.push(...page);
+				yield page;
 			}
-
-			return resources;
 		} catch (error) {
-			this.logger?.error("Failed to fetch MCP resources:", error);
+			if (!signal?.aborted) {
+				this.logger?.error("Failed to fetch MCP resources:", error);
+			}
 			throw error;
 		}
+
+		// Only complete listings are cached
+		if (generation === this.cacheGeneration) {
+			this.resourceCache = this.createCacheEntry(resources);
+		}
 	}
 
-	async getResource(uri: string): Promise<Resource<string> | null> {
+	async getResources(signal?: AbortSignal): Promise<Resource<ResourceContentPart[]>[]> {
+		const resources: Resource<ResourceContentPart[]>[] = [];
+		for await (const page of this.getResourcePages(signal)) {
+			resources.push(...page);
+		}
+		return resources;
+	}
+
+	/**
+	 * List resource templates. Servers without templates yield an empty list.
+	 */
+	async getResourceTemplates(signal?: AbortSignal): Promise<ResourceTemplate[]> {
 		const connected = await this.connectedPromise;
 		if (!connected) {
 			throw new Error("MCP client is not connected");
 		}
 
+		const cached = this.readCache(this.templateCache);
+		if (cached) {
+			return cached;
+		}
+
+		const generation = this.cacheGeneration;
+		const templates: ResourceTemplate[] = [];
 		try {
-			// First get the resource metadata
-			const listResponse = await this.client.request(
-				{ method: "resources/list" },
-				ListResourcesResultSchema,
+			const pages = this.paginate("resources/templates/list", async (cursor) => {
+				const response = await this.client.request(
+					{ method: "resources/templates/list", params: cursor ? { cursor } : undefined },
+					ListResourceTemplatesResultSchema,
+					{ signal },
+				);
+				return {
+					items: response.resourceTemplates.map((template) => fromMCPResourceTemplate(template)),
+					nextCursor: response.nextCursor,
+				};
+			});
+			for await (const page of pages) {
+				templates.push(...page);
+			}
+			if (generation === this.cacheGeneration) {
+				this.templateCache = this.createCacheEntry(templates);
+			}
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			this.logger?.warn("Could not list MCP resource templates:", error);
+		}
+		return templates;
+	}
+
+	/**
+	 * List all prompts, following `prompts/list` cursors
+	 */
+	async getPrompts(signal?: AbortSignal): Promise<Prompt[]> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		const prompts: Prompt[] = [];
+		const pages = this.paginate("prompts/list", async (cursor) => {
+			const response = await this.client.request(
+				cursor ? { method: "prompts/list", params: { cursor } } : { method: "prompts/list" },
+				ListPromptsResultSchema,
+				{ signal },
 			);
+			return { items: response.prompts, nextCursor: response.nextCursor };
+		});
+		for await (const page of pages) {
+			prompts.push(...page);
+		}
+		return prompts;
+	}
 
-			// Guard against malformed response data
-			if (!listResponse.resources || !Array.isArray(listResponse.resources)) {
-				this.logger?.warn("Malformed response: resources is not an array");
-				return null;
+	/**
+	 * List all tools, following `tools/list` cursors
+	 */
+	async getTools(signal?: AbortSignal): Promise<Tool[]> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		const tools: Tool[] = [];
+		const pages = this.paginate("tools/list", async (cursor) => {
+			const response = await this.client.request(
+				cursor ? { method: "tools/list", params: { cursor } } : { method: "tools/list" },
+				ListToolsResultSchema,
+				{ signal },
+			);
+			return { items: response.tools, nextCursor: response.nextCursor };
+		});
+		for await (const page of pages) {
+			tools.push(...page);
+		}
+		return tools;
+	}
+
+	/**
+	 * Invoke a tool with `tools/call`
+	 */
+	async callTool(
+		name: string,
+		args?: Record<string, unknown>,
+		options?: RequestOptions,
+	): Promise<CallToolResult> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		return this.client.request(
+			{ method: "tools/call", params: { name, arguments: args } },
+			CallToolResultSchema,
+			options,
+		);
+	}
+
+	/**
+	 * Whether resource search is configured for this server
+	 */
+	supportsSearch(): boolean {
+		return this.options.search !== undefined;
+	}
+
+	/**
+	 * Search resources with the configured template argument completion or search tool.
+	 * Failed searches yield no resources, aborted searches reject.
+	 */
+	async searchResources(
+		query: string,
+		{ limit, signal }: SearchResourcesOptions = {},
+	): Promise<Resource<ResourceContentPart[]>[]> {
+		const search = this.options.search;
+		if (!search) {
+			throw new Error("Resource search is not configured");
+		}
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		try {
+			const resources =
+				"template" in search
+					? await this.searchTemplate(search.template, search.argument, query, signal)
+					: await this.searchTool(search.tool, search.argument ?? "query", query, signal);
+			return limit === undefined ? resources : resources.slice(0, limit);
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			this.logger?.warn("Could not search MCP resources:", error);
+			return [];
+		}
+	}
+
+	private async searchTemplate(
+		uriTemplate: string,
+		argument: string,
+		query: string,
+		signal?: AbortSignal,
+	): Promise<Resource<ResourceContentPart[]>[]> {
+		const response = await this.client.request(
+			{
+				method: "completion/complete",
+				params: {
+					ref: { type: "ref/resource", uri: uriTemplate },
+					argument: { name: argument, value: query },
+				},
+			},
+			CompleteResultSchema,
+			{ signal },
+		);
+		const templates = await this.getResourceTemplates(signal);
+		const template = templates.find((t) => t.uriTemplate === uriTemplate);
+
+		return response.completion.values.map((value) => {
+			const uri = expandUriTemplate(uriTemplate, { [argument]: value });
+			return template
+				? { ...fromResourceTemplate(template, uri, { [argument]: value }), data: [] }
+				: fromMCPResource<ResourceContentPart[]>({ uri, name: value }, []);
+		});
+	}
+
+	private async searchTool(
+		tool: string,
+		argument: string,
+		query: string,
+		signal?: AbortSignal,
+	): Promise<Resource<ResourceContentPart[]>[]> {
+		const result = await this.callTool(tool, { [argument]: query }, { signal });
+		if (result.isError) {
+			throw new Error(`Search tool ${tool} failed`);
+		}
+
+		return result.content.flatMap((content): Resource<ResourceContentPart[]>[] => {
+			if (content.type === "resource") {
+				const { uri, mimeType } = content.resource;
+				const name = uri.split("/").filter(Boolean).pop() ?? uri;
+				const part = toContentPart(toResourceContents(content.resource));
+				return [fromMCPResource({ uri, name, mimeType }, [part])];
+			}
+			if (content.type === "text") {
+				return parseResourceList(content.text).map((resource) =>
+					fromMCPResource<ResourceContentPart[]>(resource, []),
+				);
 			}
+			return [];
+		});
+	}
+
+	/**
+	 * Load a prompt with `prompts/get`
+	 */
+	async getPrompt(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
 
-			const mcpResource = listResponse.resources.find((r) => r.uri === uri);
+		return this.client.request(
+			{ method: "prompts/get", params: { name, arguments: args } },
+			GetPromptResultSchema,
+		);
+	}
+
+	async getResource(uri: string): Promise<Resource<ResourceContentPart[]> | null> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		try {
+			// First get the resource metadata, from the cache when it is fresh
+			let mcpResource: Resource<ResourceContentPart[]> | undefined;
+			for await (const page of this.getResourcePages()) {
+				mcpResource = page.find((r) => r.uri === uri);
+				if (mcpResource) break;
+			}
 			if (!mcpResource) {
 				return null;
 			}
 
 			// Try to read the resource content
-			let content = "";
+			let parts: ResourceContentPart[] = [];
 			try {
-				const readResponse = await this.client.request(
-					{ method: "resources/read", params: { uri } },
-					ReadResourceResultSchema,
-				);
-
-				// Combine all content parts
-				content = readResponse.contents.map((c) => c.text || c.blob || "").join("\n");
+				parts = await this.readResourceParts(uri);
 			} catch (error) {
 				this.logger?.warn(`Could not read resource ${uri}:`, error);
 				// Continue with empty content
 			}
 
-			return fromMCPResource(mcpResource, content);
+			return { ...mcpResource, data: parts };
 		} catch (error) {
 			this.logger?.error("Failed to get MCP resource:", error);
 			throw error;
 		}
 	}
 
+	/**
+	 * Read the text of a resource with `resources/read`, binary parts left out.
+	 * Use `readResourceParts` for images, PDFs and other binary content.
+	 */
+	async readResource(uri: string): Promise<string> {
+		return getContentText(await this.readResourceParts(uri));
+	}
+
+	/**
+	 * Read the content parts of a resource with `resources/read`, keeping their MIME types
+	 */
+	async readResourceContents(uri: string, signal?: AbortSignal): Promise<ResourceContents[]> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		const readResponse = await this.client.request(
+			{ method: "resources/read", params: { uri } },
+			ReadResourceResultSchema,
+			{ signal },
+		);
+		return readResponse.contents.map(toResourceContents);
+	}
+
+	/**
+	 * Read the content parts of a resource with `resources/read`, decoding binary parts
+	 */
+	async readResourceParts(uri: string, signal?: AbortSignal): Promise<ResourceContentPart[]> {
+		const contents = await this.readResourceContents(uri, signal);
+		return contents.map(toContentPart);
+	}
+
+	/**
+	 * Complete a prompt or resource template argument using `completion/complete`.
+	 * Servers without argument completion yield no values.
+	 */
+	async completeArgument(
+		ref: PromptReference | ResourceReference,
+		argument: { name: string; value: string },
+		signal?: AbortSignal,
+	): Promise<string[]> {
+		const connected = await this.connectedPromise;
+		if (!connected) {
+			throw new Error("MCP client is not connected");
+		}
+
+		try {
+			const response = await this.client.request(
+				{ method: "completion/complete", params: { ref, argument } },
+				CompleteResultSchema,
+				{ signal },
+			);
+			return response.completion.values;
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			this.logger?.warn(`Could not complete argument ${argument.name}:`, error);
+			return [];
+		}
+	}
+
+	/**
+	 * Whether the server supports `resources/subscribe`
+	 */
+	async supportsSubscriptions(): Promise<boolean> {
+		const connected = await this.connectedPromise;
+		return connected && this.client.getServerCapabilities()?.resources?.subscribe === true;
+	}
+
+	/**
+	 * Subscribe to updates of a resource. Subscriptions are reference counted,
+	 * so only the first subscriber sends `resources/subscribe`.
+	 */
+	async subscribe(uri: string): Promise<void> {
+		const count = this.subscriptions.get(uri) ?? 0;
+		this.subscriptions.set(uri, count + 1);
+		if (count > 0 || !(await this.supportsSubscriptions())) return;
+
+		try {
+			await this.client.request(
+				{ method: "resources/subscribe", params: { uri } },
+				EmptyResultSchema,
+			);
+		} catch (error) {
+			this.logger?.warn(`Could not subscribe to resource ${uri}:`, error);
+		}
+	}
+
+	/**
+	 * Release a subscription, sending `resources/unsubscribe` once nobody is subscribed
+	 */
+	async unsubscribe(uri: string): Promise<void> {
+		const count = this.subscriptions.get(uri) ?? 0;
+		if (count === 0) return;
+		if (count > 1) {
+			this.subscriptions.set(uri, count - 1);
+			return;
+		}
+
+		this.subscriptions.delete(uri);
+		if (!(await this.supportsSubscriptions())) return;
+
+		try {
+			await this.client.request(
+				{ method: "resources/unsubscribe", params: { uri } },
+				EmptyResultSchema,
+			);
+		} catch (error) {
+			this.logger?.warn(`Could not unsubscribe from resource ${uri}:`, error);
+		}
+	}
+
+	/**
+	 * Listen for `notifications/resources/updated`, returns a function to stop listening
+	 */
+	onResourceUpdated(listener: (uri: string) => void): () => void {
+		this.updateListeners.add(listener);
+		return () => {
+			this.updateListeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Drop cached resource and template listings, so the next request hits the server.
+	 * Called automatically on `notifications/resources/list_changed`.
+	 */
+	invalidate(): void {
+		this.resourceCache = null;
+		this.templateCache = null;
+		this.cacheGeneration++;
+	}
+
+	private readCache<T>(entry: CacheEntry<T> | null): T | null {
+		if (!entry || entry.expiresAt <= Date.now()) return null;
+		return entry.value;
+	}
+
+	private createCacheEntry<T>(value: T): CacheEntry<T> | null {
+		const ttl = this.options.cacheTtl ?? DEFAULT_CACHE_TTL;
+		if (ttl <= 0) return null;
+		return { value, expiresAt: Date.now() + ttl };
+	}
+
 	/**
 	 * Get the underlying MCP client for advanced usage
 	 */
@@ -0,0 +1,481 @@
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type {
+	CallToolResult,
+	GetPromptResult,
+	Implementation,
+	Prompt,
+	PromptReference,
+	ResourceReference,
+	Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+	type Resource,
+	type ResourceContentPart,
+	type ResourceContents,
+	type ResourceTemplate,
+	type SearchResourcesOptions,
+	toContentPart,
+} from "../resources/resource.js";
+import { matchResource } from "../resources/search.js";
+import {
+	type ConnectionState,
+	MCPResourceProvider,
+	type MCPResourceProviderOptions,
+	type ResourceSearchOptions,
+	type TransportFactory,
+} from "./mcp-provider.js";
+
+export interface MCPServerOptions {
+	/** Unique name of the server, shown as a badge in completions */
+	name: string;
+	/** Transport layer for MCP client-server communication, or a factory to reconnect with */
+	transport: Transport | TransportFactory;
+	/** Optional implementation-specific client options, overriding the shared ones */
+	clientOptions?: Implementation;
+	/** Search resources on the server instead of listing them all */
+	search?: ResourceSearchOptions;
+}
+
+interface Route {
+	server: string;
+	/** URI or prompt name as known by the server */
+	name: string;
+}
+
+const QUALIFIED_URI_PATTERN = /^([\w-]+)\+([\w-]+:\/\/.*)$/;
+
+/**
+ * Qualify a URI with the server it comes from, e.g. `db+file://notes.txt`
+ */
+function qualifyUri(server: string, uri: string): string {
+	return `${server}+${uri}`;
+}
+
+function getScheme(uri: string): string | undefined {
+	return uri.split("://", 2)[0];
+}
+
+/**
+ * Merges the resources and prompts of several MCP servers, routing requests to the owning server.
+ *
+ * The first server to list a URI or prompt name owns it. Other servers listing the same URI get
+ * a qualified `server+scheme://...` URI, and duplicate prompt and tool names become `server_name`.
+ */
+export class MCPServerPool {
+	private providers = new Map<string, MCPResourceProvider>();
+	// Owners of the URIs and prompt names seen in listings
+	private uriOwners = new Map<string, string>();
+	private schemeOwners = new Map<string, string>();
+	private promptRoutes = new Map<string, Route>();
+	private toolRoutes = new Map<string, Route>();
+
+	constructor(
+		servers: MCPServerOptions[],
+		clientOptions?: Implementation,
+		private logger?: typeof console,
+		options: MCPResourceProviderOptions = {},
+	) {
+		for (const server of servers) {
+			if (this.providers.has(server.name)) {
+				throw new Error(`Duplicate MCP server name: ${server.name}`);
+			}
+			this.providers.set(
+				server.name,
+				new MCPResourceProvider(server.transport, server.clientOptions ?? clientOptions, logger, {
+					...options,
+					search: server.search,
+				}),
+			);
+		}
+	}
+
+	/**
+	 * Names of the servers in the pool, in order
+	 */
+	getServerNames(): string[] {
+		return [...this.providers.keys()];
+	}
+
+	/**
+	 * Get the provider of a single server for advanced usage
+	 */
+	getProvider(server: string): MCPResourceProvider | undefined {
+		return this.providers.get(server);
+	}
+
+	/**
+	 * Connection state of every server, by server name
+	 */
+	getConnectionStates(): Map<string, ConnectionState> {
+		return new Map(
+			[...this.providers].map(([server, provider]) => [server, provider.getConnectionState()]),
+		);
+	}
+
+	/**
+	 * Name and version a server reported when connecting
+	 */
+	getServerInfo(server: string): Implementation | undefined {
+		return this.providers.get(server)?.getServerInfo();
+	}
+
+	/**
+	 * Listen for connection state changes of every server, returns a function to stop listening
+	 */
+	onConnectionStateChange(listener: (server: string, state: ConnectionState) => void): () => void {
+		const stops = [...this.providers].map(([server, provider]) =>
+			provider.onConnectionStateChange((state) => listener(server, state)),
+		);
+		return () => {
+			for (const stop of stops) stop();
+		};
+	}
+
+	/**
+	 * Reconnect a server right away, or every server when none is given
+	 */
+	async reconnect(server?: string): Promise<boolean> {
+		const providers = server ? [this.getServerProvider(server)] : [...this.providers.values()];
+		const connected = await Promise.all(providers.map((provider) => provider.reconnect()));
+		return connected.some(Boolean);
+	}
+
+	/**
+	 * Replace the transport of a server at runtime, defaults to the first server
+	 */
+	setTransport(
+		transport: Transport | TransportFactory,
+		server = this.getServerNames()[0] ?? "",
+	): Promise<boolean> {
+		return this.getServerProvider(server).setTransport(transport);
+	}
+
+	/**
+	 * Check if at least one server is connected
+	 */
+	async isConnected(): Promise<boolean> {
+		const connected = await Promise.all(
+			[...this.providers.values()].map((provider) => provider.isConnected()),
+		);
+		return connected.some(Boolean);
+	}
+
+	/**
+	 * Stream the resources of every connected server, one server after the other.
+	 * Servers failing to list their resources are skipped.
+	 */
+	async *getResourcePages(signal?: AbortSignal): AsyncGenerator<Resource<ResourceContentPart[]>[]> {
+		for (const [server, provider] of this.providers) {
+			if (!(await provider.isConnected())) continue;
+
+			try {
+				for await (const page of provider.getResourcePages(signal)) {
+					yield page.map((resource) => this.claimResource(server, resource));
+				}
+			} catch (error) {
+				if (signal?.aborted) throw error;
+				this.logger?.warn(`Could not list resources of MCP server ${server}:`, error);
+			}
+		}
+	}
+
+	async getResources(signal?: AbortSignal): Promise<Resource<ResourceContentPart[]>[]> {
+		const resources: Resource<ResourceContentPart[]>[] = [];
+		for await (const page of this.getResourcePages(signal)) {
+			resources.push(...page);
+		}
+		return resources;
+	}
+
+	/**
+	 * Whether at least one server is configured to search its resources
+	 */
+	supportsSearch(): boolean {
+		return [...this.providers.values()].some((provider) => provider.supportsSearch());
+	}
+
+	/**
+	 * Search the resources of every connected server, in server order. Servers not configured
+	 * for search list their resources and match them against the query locally.
+	 */
+	async searchResources(
+		query: string,
+		{ limit, signal }: SearchResourcesOptions = {},
+	): Promise<Resource<ResourceContentPart[]>[]> {
+		const results = await Promise.all(
+			[...this.providers].map(async ([server, provider]) => {
+				if (!(await provider.isConnected())) return [];
+				if (!provider.supportsSearch()) {
+					return this.filterResources(server, provider, query, { limit, signal });
+				}
+
+				const resources = await provider.searchResources(query, { limit, signal });
+				return resources.map((resource) => this.claimResource(server, resource));
+			}),
+		);
+		const resources = results.flat();
+		return limit === undefined ? resources : resources.slice(0, limit);
+	}
+
+	/**
+	 * List the resources of a server without search and keep the best matches of the query.
+	 * Servers failing to list their resources are skipped.
+	 */
+	private async filterResources(
+		server: string,
+		provider: MCPResourceProvider,
+		query: string,
+		{ limit, signal }: SearchResourcesOptions,
+	): Promise<Resource<ResourceContentPart[]>[]> {
+		const matches: { resource: Resource<ResourceContentPart[]>; score: number }[] = [];
+		try {
+			for await (const page of provider.getResourcePages(signal)) {
+				for (const resource of page) {
+					const match = matchResource(resource, query);
+					if (match)
+						matches.push({ resource: this.claimResource(server, resource), score: match.score });
+				}
+			}
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			this.logger?.warn(`Could not list resources of MCP server ${server}:`, error);
+		}
+
+		const resources = matches.sort((a, b) => b.score - a.score).map(({ resource }) => resource);
+		return limit === undefined ? resources : resources.slice(0, limit);
+	}
+
+	async getResourceTemplates(signal?: AbortSignal): Promise<ResourceTemplate[]> {
+		const templates: ResourceTemplate[] = [];
+		for (const [server, provider] of this.providers) {
+			if (!(await provider.isConnected())) continue;
+
+			for (const template of await provider.getResourceTemplates(signal)) {
+				const uriTemplate = this.claimUri(server, template.uriTemplate);
+				templates.push({ ...template, uriTemplate, server });
+			}
+		}
+		return templates;
+	}
+
+	async getPrompts(signal?: AbortSignal): Promise<Prompt[]> {
+		const prompts: Prompt[] = [];
+		for (const [server, provider] of this.providers) {
+			if (!(await provider.isConnected())) continue;
+
+			try {
+				for (const prompt of await provider.getPrompts(signal)) {
+					prompts.push({ ...prompt, name: this.claimName(this.promptRoutes, server, prompt.name) });
+				}
+			} catch (error) {
+				if (signal?.aborted) throw error;
+				this.logger?.warn(`Could not list prompts of MCP server ${server}:`, error);
+			}
+		}
+		return prompts;
+	}
+
+	/**
+	 * Name of the server owning a prompt
+	 */
+	getPromptServer(name: string): string {
+		return this.resolvePrompt(name).server;
+	}
+
+	async getTools(signal?: AbortSignal): Promise<Tool[]> {
+		const tools: Tool[] = [];
+		for (const [server, provider] of this.providers) {
+			if (!(await provider.isConnected())) continue;
+
+			try {
+				for (const tool of await provider.getTools(signal)) {
+					tools.push({ ...tool, name: this.claimName(this.toolRoutes, server, tool.name) });
+				}
+			} catch (error) {
+				if (signal?.aborted) throw error;
+				this.logger?.warn(`Could not list tools of MCP server ${server}:`, error);
+			}
+		}
+		return tools;
+	}
+
+	/**
+	 * Name of the server owning a tool
+	 */
+	getToolServer(name: string): string {
+		return this.resolveName(this.toolRoutes, name).server;
+	}
+
+	async callTool(name: string, args?: Record<string, unknown>): Promise<CallToolResult> {
+		const route = this.resolveName(this.toolRoutes, name);
+		return this.getRouteProvider(route).callTool(route.name, args);
+	}
+
+	/**
+	 * Get a prompt from the server owning it. Resources embedded in its messages belong to
+	 * that server, their URIs are claimed like listed ones.
+	 */
+	async getPrompt(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+		const route = this.resolvePrompt(name);
+		const result = await this.getRouteProvider(route).getPrompt(route.name, args);
+		return {
+			...result,
+			messages: result.messages.map((message) => {
+				if (message.content.type !== "resource") return message;
+				const { resource } = message.content;
+				const uri = this.claimUri(route.server, resource.uri);
+				return { ...message, content: { ...message.content, resource: { ...resource, uri } } };
+			}),
+		};
+	}
+
+	async getResource(uri: string): Promise<Resource<ResourceContentPart[]> | null> {
+		const route = this.resolveUri(uri);
+		const resource = await this.getRouteProvider(route).getResource(route.name);
+		return resource && { ...resource, uri, server: route.server };
+	}
+
+	async readResource(uri: string): Promise<string> {
+		const route = this.resolveUri(uri);
+		return this.getRouteProvider(route).readResource(route.name);
+	}
+
+	async readResourceContents(uri: string, signal?: AbortSignal): Promise<ResourceContents[]> {
+		const route = this.resolveUri(uri);
+		const contents = await this.getRouteProvider(route).readResourceContents(route.name, signal);
+		return contents.map((content) => (content.uri === route.name ? { ...content, uri } : content));
+	}
+
+	async readResourceParts(uri: string, signal?: AbortSignal): Promise<ResourceContentPart[]> {
+		const contents = await this.readResourceContents(uri, signal);
+		return contents.map(toContentPart);
+	}
+
+	async completeArgument(
+		ref: PromptReference | ResourceReference,
+		argument: { name: string; value: string },
+		signal?: AbortSignal,
+	): Promise<string[]> {
+		if (ref.type === "ref/prompt") {
+			const route = this.resolvePrompt(ref.name);
+			return this.getRouteProvider(route).completeArgument(
+				{ ...ref, name: route.name },
+				argument,
+				signal,
+			);
+		}
+
+		const route = this.resolveUri(ref.uri);
+		return this.getRouteProvider(route).completeArgument(
+			{ ...ref, uri: route.name },
+			argument,
+			signal,
+		);
+	}
+
+	async subscribe(uri: string): Promise<void> {
+		const route = this.resolveUri(uri);
+		return this.getRouteProvider(route).subscribe(route.name);
+	}
+
+	async unsubscribe(uri: string): Promise<void> {
+		const route = this.resolveUri(uri);
+		return this.getRouteProvider(route).unsubscribe(route.name);
+	}
+
+	/**
+	 * Listen for resource updates on every server, reported with the URIs used by the pool
+	 */
+	onResourceUpdated(listener: (uri: string) => void): () => void {
+		const stops = [...this.providers].map(([server, provider]) =>
+			provider.onResourceUpdated((uri) => listener(this.toPoolUri(server, uri))),
+		);
+		return () => {
+			for (const stop of stops) stop();
+		};
+	}
+
+	/**
+	 * Drop the cached listings of every server
+	 */
+	invalidate(): void {
+		for (const provider of this.providers.values()) {
+			provider.invalidate();
+		}
+	}
+
+	private claimResource(
+		server: string,
+		resource: Resource<ResourceContentPart[]>,
+	): Resource<ResourceContentPart[]> {
+		return { ...resource, uri: this.claimUri(server, resource.uri), server };
+	}
+
+	private claimUri(server: string, uri: string): string {
+		const owner = this.uriOwners.get(uri);
+		if (!owner) {
+			this.uriOwners.set(uri, server);
+		}
+		const scheme = getScheme(uri);
+		if (scheme && !this.schemeOwners.has(scheme)) {
+			this.schemeOwners.set(scheme, server);
+		}
+		return this.toPoolUri(server, uri);
+	}
+
+	private claimName(routes: Map<string, Route>, server: string, name: string): string {
+		const owner = routes.get(name);
+		if (!owner) {
+			routes.set(name, { server, name });
+			return name;
+		}
+		if (owner.server === server) return name;
+
+		const qualified = `${server}_${name}`;
+		routes.set(qualified, { server, name });
+		return qualified;
+	}
+
+	private toPoolUri(server: string, uri: string): string {
+		const owner = this.uriOwners.get(uri);
+		return !owner || owner === server ? uri : qualifyUri(server, uri);
+	}
+
+	/**
+	 * Find the server owning a URI: from its qualifier, from listings, then from its scheme
+	 */
+	private resolveUri(uri: string): Route {
+		const qualified = QUALIFIED_URI_PATTERN.exec(uri);
+		if (qualified?.[1] && qualified[2] && this.providers.has(qualified[1])) {
+			return { server: qualified[1], name: qualified[2] };
+		}
+
+		const scheme = getScheme(uri);
+		const server =
+			this.uriOwners.get(uri) ??
+			(scheme && this.schemeOwners.get(scheme)) ??
+			this.getServerNames()[0] ??
+			"";
+		return { server, name: uri };
+	}
+
+	private resolvePrompt(name: string): Route {
+		return this.resolveName(this.promptRoutes, name);
+	}
+
+	private resolveName(routes: Map<string, Route>, name: string): Route {
+		return routes.get(name) ?? { server: this.getServerNames()[0] ?? "", name };
+	}
+
+	private getRouteProvider(route: Route): MCPResourceProvider {
+		return this.getServerProvider(route.server);
+	}
+
+	private getServerProvider(server: string): MCPResourceProvider {
+		const provider = this.providers.get(server);
+		if (!provider) {
+			throw new Error(`Unknown MCP server: ${server}`);
+		}
+		return provider;
+	}
+}
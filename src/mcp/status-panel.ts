@@ -0,0 +1,87 @@
+import { type EditorView, type Panel, type ViewUpdate, showPanel } from "@codemirror/view";
+import { connectionStateField } from "../state.js";
+import type { ConnectionState } from "./mcp-provider.js";
+import type { MCPServerPool } from "./server-pool.js";
+
+function formatError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+class ConnectionStatusPanel implements Panel {
+	dom: HTMLElement;
+
+	constructor(
+		readonly view: EditorView,
+		readonly pool: MCPServerPool,
+	) {
+		this.dom = document.createElement("div");
+		this.dom.className = "cm-mcp-status-panel";
+		this.render();
+	}
+
+	update(update: ViewUpdate) {
+		if (
+			update.startState.field(connectionStateField, false) !==
+			update.state.field(connectionStateField, false)
+		) {
+			this.render();
+		}
+	}
+
+	render() {
+		const states = this.view.state.field(connectionStateField, false) ?? new Map();
+		this.dom.replaceChildren(
+			...[...states].map(([server, state]) => this.renderServer(server, state, states.size > 1)),
+		);
+	}
+
+	renderServer(server: string, state: ConnectionState, showName: boolean): HTMLElement {
+		const row = document.createElement("div");
+		row.className = `cm-mcp-status cm-mcp-status-${state.status}`;
+
+		const indicator = document.createElement("span");
+		indicator.className = "cm-mcp-status-indicator";
+		row.appendChild(indicator);
+
+		// Server name and version from the initialize result, once connected
+		const info = this.pool.getServerInfo(server);
+		const label = document.createElement("span");
+		label.className = "cm-mcp-status-server";
+		const serverLabel = info ? `${info.name} ${info.version}` : server;
+		label.textContent = showName && info ? `${server}: ${serverLabel}` : serverLabel;
+		row.appendChild(label);
+
+		const status = document.createElement("span");
+		status.className = "cm-mcp-status-state";
+		status.textContent = state.status;
+		row.appendChild(status);
+
+		if (state.error !== undefined) {
+			const error = document.createElement("span");
+			error.className = "cm-mcp-status-message";
+			error.textContent = formatError(state.error);
+			row.appendChild(error);
+		}
+
+		if (state.status === "error" || state.status === "disconnected") {
+			const retry = document.createElement("button");
+			retry.className = "cm-mcp-status-retry";
+			retry.type = "button";
+			retry.textContent = "Retry";
+			retry.addEventListener("click", (e) => {
+				e.preventDefault();
+				void this.pool.reconnect(server);
+			});
+			row.appendChild(retry);
+		}
+
+		return row;
+	}
+}
+
+/**
+ * Panel below the editor showing the connection state of every server, with a retry button
+ */
+export function connectionStatusPanel(pool: MCPServerPool) {
+	return showPanel.of((view) => new ConnectionStatusPanel(view, pool));
+}
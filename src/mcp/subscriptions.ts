@@ -0,0 +1,98 @@
+import { type EditorView, ViewPlugin, type ViewUpdate } from "@codemirror/view";
+import { extractResources } from "../resources/extract.js";
+import type { ResourceContentPart } from "../resources/resource.js";
+import { resourcesField, updateResources } from "../state.js";
+import type { MCPResourceProvider } from "./mcp-provider.js";
+
+type ResourceSubscriber = Pick<
+	MCPResourceProvider,
+	"subscribe" | "unsubscribe" | "readResourceParts" | "onResourceUpdated"
+>;
+
+/**
+ * Keep mentioned resources subscribed on the MCP server, refreshing them in
+ * resourcesField when the server sends `notifications/resources/updated`
+ */
+export function resourceSubscriptions(provider: ResourceSubscriber, logger?: typeof console) {
+	return ViewPlugin.fromClass(
+		class {
+			subscribed = new Set<string>();
+			// Last subscribe or unsubscribe call of every URI, later calls wait for it
+			pending = new Map<string, Promise<void>>();
+			destroyed = false;
+			stopListening: () => void;
+
+			constructor(readonly view: EditorView) {
+				this.stopListening = provider.onResourceUpdated((uri) => this.refresh(uri));
+				this.sync();
+			}
+
+			update(update: ViewUpdate) {
+				if (
+					update.docChanged ||
+					update.transactions.some((tr) => tr.effects.some((e) => e.is(updateResources)))
+				) {
+					this.sync();
+				}
+			}
+
+			// Subscribe to new mentions and unsubscribe from deleted ones
+			sync() {
+				const mentioned = new Set(extractResources(this.view).map(({ resource }) => resource.uri));
+				for (const uri of mentioned) {
+					if (!this.subscribed.has(uri)) {
+						this.subscribed.add(uri);
+						this.queue(uri, () => provider.subscribe(uri));
+					}
+				}
+				for (const uri of this.subscribed) {
+					if (!mentioned.has(uri)) {
+						this.subscribed.delete(uri);
+						this.queue(uri, () => provider.unsubscribe(uri));
+					}
+				}
+			}
+
+			// Run the calls for a URI in order, so an unsubscribe never overtakes its subscribe
+			queue(uri: string, call: () => Promise<void>) {
+				const previous = this.pending.get(uri);
+				const next = (previous ? previous.then(call) : call()).catch((error) => {
+					logger?.warn(`Could not update the subscription to resource ${uri}:`, error);
+				});
+				this.pending.set(uri, next);
+				void next.then(() => {
+					if (this.pending.get(uri) === next) this.pending.delete(uri);
+				});
+			}
+
+			// Re-read an updated resource, keeping the metadata already known for it
+			async refresh(uri: string) {
+				if (!this.subscribed.has(uri)) return;
+
+				let data: ResourceContentPart[];
+				try {
+					data = await provider.readResourceParts(uri);
+				} catch (error) {
+					logger?.warn(`Could not refresh resource ${uri}:`, error);
+					return;
+				}
+				if (this.destroyed || !this.subscribed.has(uri)) return;
+
+				const resource = this.view.state.field(resourcesField).get(uri);
+				if (!resource) return;
+				this.view.dispatch({
+					effects: updateResources.of(new Map([[uri, { ...resource, data }]])),
+				});
+			}
+
+			destroy() {
+				this.destroyed = true;
+				this.stopListening();
+				for (const uri of this.subscribed) {
+					this.queue(uri, () => provider.unsubscribe(uri));
+				}
+				this.subscribed.clear();
+			}
+		},
+	);
+}
@@ -0,0 +1,102 @@
+import type { Prompt, PromptArgument } from "@modelcontextprotocol/sdk/types.js";
+import { escapeRegExp } from "../utils.js";
+
+/**
+ * Matches a command with at least one argument slot before the cursor, e.g.
+ * `/read_table users ` or `/read_table users "first na` for the `/` trigger
+ */
+export function createCommandPattern(trigger: string): RegExp {
+	return new RegExp(
+		`${escapeRegExp(trigger)}([\\w-]+)((?:[ \\t]+(?:"[^"]*"|[^\\s"]+))*)[ \\t]+("[^"]*|[^\\s"]*)`,
+	);
+}
+
+export const PROMPT_COMMAND_PATTERN = createCommandPattern("/");
+
+/**
+ * Matches the name of a command at the start of a word, e.g. `/read_table` in `/read_table users`
+ */
+export function createCommandNamePattern(trigger: string): RegExp {
+	return new RegExp(`(?<=^|\\s)${escapeRegExp(trigger)}([\\w-]+)(?=\\s|$)`, "g");
+}
+
+const ARGUMENT_TOKEN_PATTERN = /"([^"]*)"|([^\s"]+)/g;
+
+export interface PromptCommand {
+	/** Name of the prompt, without the leading trigger */
+	name: string;
+	/** Position of the leading trigger */
+	from: number;
+	/** Argument values that have already been typed */
+	values: string[];
+	/** The argument value currently being typed at the cursor */
+	current: { from: number; to: number; value: string };
+}
+
+/**
+ * Parse a command, as matched by `pattern` (PROMPT_COMMAND_PATTERN by default), starting at `from`
+ */
+export function parsePromptCommand(
+	text: string,
+	from = 0,
+	pattern = PROMPT_COMMAND_PATTERN,
+): PromptCommand | null {
+	const match = text.match(new RegExp(`^${pattern.source}$`));
+	if (!match) return null;
+
+	const [, name = "", rest = "", current = ""] = match;
+	const values = Array.from(rest.matchAll(ARGUMENT_TOKEN_PATTERN), (m) => m[1] ?? m[2] ?? "");
+	const to = from + text.length;
+
+	return {
+		name,
+		from,
+		values,
+		current: {
+			from: to - current.length,
+			to,
+			value: current.startsWith('"') ? current.slice(1) : current,
+		},
+	};
+}
+
+/**
+ * Format an argument value for insertion, quoting it when it contains whitespace
+ */
+export function formatArgumentValue(value: string): string {
+	return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/**
+ * Slack-style signature of the prompt arguments, e.g. `[table_name] [column_name?]`
+ */
+export function formatPromptSignature(prompt: Prompt): string {
+	return (prompt.arguments ?? [])
+		.map((argument) => (argument.required ? `[${argument.name}]` : `[${argument.name}?]`))
+		.join(" ");
+}
+
+export function hasPromptArguments(prompt: Prompt): boolean {
+	return (prompt.arguments?.length ?? 0) > 0;
+}
+
+/**
+ * Pair the typed values with the prompt's declared arguments, in order
+ */
+export function getPromptArguments(prompt: Prompt, values: string[]): Record<string, string> {
+	const args: Record<string, string> = {};
+	for (const [index, argument] of (prompt.arguments ?? []).entries()) {
+		const value = values[index];
+		if (value) {
+			args[argument.name] = value;
+		}
+	}
+	return args;
+}
+
+export function getMissingArguments(
+	prompt: Prompt,
+	args: Record<string, string>,
+): PromptArgument[] {
+	return (prompt.arguments ?? []).filter((argument) => argument.required && !args[argument.name]);
+}
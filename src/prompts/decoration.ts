@@ -0,0 +1,108 @@
+import type { EditorState, Range } from "@codemirror/state";
+import {
+	Decoration,
+	type DecorationSet,
+	EditorView,
+	ViewPlugin,
+	type ViewUpdate,
+	WidgetType,
+} from "@codemirror/view";
+import type { Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { getTriggers, promptsField, updatePrompts } from "../state.js";
+import { createCommandNamePattern } from "./arguments.js";
+
+export interface PromptCommandMatch {
+	prompt: Prompt;
+	/** Position of the leading trigger */
+	from: number;
+	/** End of the prompt name, arguments excluded */
+	to: number;
+}
+
+/**
+ * Commands of known prompts in `text`, starting at `offset` in the document
+ */
+export function findPromptCommands(
+	state: EditorState,
+	text: string,
+	offset = 0,
+): PromptCommandMatch[] {
+	const prompts = state.field(promptsField, false);
+	if (!prompts || prompts.size === 0) return [];
+
+	const matches: PromptCommandMatch[] = [];
+	for (const match of text.matchAll(createCommandNamePattern(getTriggers(state).prompt))) {
+		const prompt = prompts.get(match[1] ?? "");
+		if (prompt) {
+			const from = offset + match.index;
+			matches.push({ prompt, from, to: from + match[0].length });
+		}
+	}
+	return matches;
+}
+
+// Widget for prompt command chips
+class PromptWidget extends WidgetType {
+	constructor(
+		readonly prompt: Prompt,
+		readonly trigger: string,
+	) {
+		super();
+	}
+
+	eq(other: PromptWidget) {
+		return other.prompt === this.prompt && other.trigger === this.trigger;
+	}
+
+	toDOM() {
+		const wrap = document.createElement("span");
+		wrap.className = "cm-prompt-widget";
+		wrap.textContent = `${this.trigger}${this.prompt.name}`;
+		return wrap;
+	}
+}
+
+function createPromptDecorations(view: EditorView): DecorationSet {
+	const trigger = getTriggers(view.state).prompt;
+	const decorations: Range<Decoration>[] = [];
+
+	for (const { from, to } of view.visibleRanges) {
+		const text = view.state.doc.sliceString(from, to);
+		for (const match of findPromptCommands(view.state, text, from)) {
+			decorations.push(
+				Decoration.replace({ widget: new PromptWidget(match.prompt, trigger) }).range(
+					match.from,
+					match.to,
+				),
+			);
+		}
+	}
+
+	return Decoration.set(decorations);
+}
+
+// ViewPlugin rendering commands of known prompts as chips, which the cursor moves over as a whole
+export const promptDecorations = ViewPlugin.fromClass(
+	class {
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.decorations = createPromptDecorations(view);
+		}
+
+		update(update: ViewUpdate) {
+			if (
+				update.docChanged ||
+				update.viewportChanged ||
+				update.transactions.some((tr) => tr.effects.some((e) => e.is(updatePrompts)))
+			) {
+				this.decorations = createPromptDecorations(update.view);
+			}
+		}
+	},
+	{
+		decorations: (v) => v.decorations,
+		provide: (plugin) =>
+			EditorView.atomicRanges.of((view) => view.plugin(plugin)?.decorations ?? Decoration.none),
+	},
+);
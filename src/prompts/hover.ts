@@ -0,0 +1,69 @@
+import { type TooltipView, hoverTooltip } from "@codemirror/view";
+import type { Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { getTriggers } from "../state.js";
+import { formatPromptSignature } from "./arguments.js";
+import { findPromptCommands } from "./decoration.js";
+
+export function createPromptTooltip(prompt: Prompt, trigger = "/"): TooltipView {
+	const dom = document.createElement("div");
+	dom.className = "cm-tooltip-cursor";
+
+	const title = document.createElement("div");
+	title.className = "cm-tooltip-cursor-title";
+	const signature = formatPromptSignature(prompt);
+	title.textContent = signature
+		? `${trigger}${prompt.name} ${signature}`
+		: `${trigger}${prompt.name}`;
+	dom.appendChild(title);
+
+	if (prompt.description) {
+		const description = document.createElement("div");
+		description.className = "cm-tooltip-cursor-description";
+		description.textContent = prompt.description;
+		dom.appendChild(description);
+	}
+
+	if (prompt.arguments && prompt.arguments.length > 0) {
+		const list = document.createElement("ul");
+		list.className = "cm-mcp-prompt-arguments";
+		for (const argument of prompt.arguments) {
+			const item = document.createElement("li");
+			const name = document.createElement("code");
+			name.textContent = argument.name;
+			item.append(name, argument.required ? " (required)" : " (optional)");
+			if (argument.description) item.append(`: ${argument.description}`);
+			list.appendChild(item);
+		}
+		dom.appendChild(list);
+	}
+
+	return { dom };
+}
+
+export interface HoverPromptOptions {
+	createTooltip?: (prompt: Prompt) => TooltipView;
+}
+
+/**
+ * Tooltip with the description and arguments of prompts, when hovering their commands
+ */
+export function hoverPrompt(options: HoverPromptOptions = {}) {
+	return hoverTooltip((view, pos) => {
+		const { from, text } = view.state.doc.lineAt(pos);
+		const match = findPromptCommands(view.state, text, from).find(
+			(command) => pos >= command.from && pos <= command.to,
+		);
+		if (!match) return null;
+
+		return {
+			pos: match.from,
+			end: match.to,
+			above: true,
+			create() {
+				return options.createTooltip
+					? options.createTooltip(match.prompt)
+					: createPromptTooltip(match.prompt, getTriggers(view.state).prompt);
+			},
+		};
+	});
+}
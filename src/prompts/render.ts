@@ -0,0 +1,36 @@
+import type { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+	type Resource,
+	type ResourceContentPart,
+	fromMCPResource,
+	toContentPart,
+} from "../resources/resource.js";
+
+export interface RenderedPrompt {
+	/** Text of the messages, embedded resources written as mentions */
+	text: string;
+	/** Resources embedded in the messages, with their contents */
+	resources: Resource<ResourceContentPart[]>[];
+}
+
+/**
+ * Render prompt messages as editor text: text content inline and embedded resources as
+ * `prefix` mentions, one message per paragraph. Images and audio have no text and are left out.
+ */
+export function renderPromptMessages(messages: PromptMessage[], prefix: string): RenderedPrompt {
+	const paragraphs: string[] = [];
+	const resources: Resource<ResourceContentPart[]>[] = [];
+
+	for (const { content } of messages) {
+		if (content.type === "text") {
+			paragraphs.push(content.text);
+		} else if (content.type === "resource") {
+			const { uri, mimeType } = content.resource;
+			const name = uri.split("/").filter(Boolean).pop() ?? uri;
+			resources.push(fromMCPResource({ uri, name, mimeType }, [toContentPart(content.resource)]));
+			paragraphs.push(`${prefix}${uri}`);
+		}
+	}
+
+	return { text: paragraphs.join("\n\n"), resources };
+}
@@ -0,0 +1,276 @@
+import type { EditorState, Extension } from "@codemirror/state";
+import {
+	type EditorView,
+	type Panel,
+	ViewPlugin,
+	type ViewUpdate,
+	showPanel,
+} from "@codemirror/view";
+import {
+	resourceBudgetField,
+	resourcesField,
+	setResourceTokens,
+	updateResources,
+} from "../state.js";
+import { estimateTokens } from "./context.js";
+import { extractResources } from "./extract.js";
+import type { Resource, ResourceContentPart, ResourceContents } from "./resource.js";
+
+export interface ResourceBudgetOptions {
+	/** Budget of all mentioned resources together, in estimated tokens */
+	maxTokens?: number;
+	/** Budget of each mentioned resource, in estimated tokens */
+	maxResourceTokens?: number;
+	/** Estimate the tokens of some text, defaults to 4 characters per token */
+	estimateTokens?: (text: string) => number;
+	/**
+	 * Estimate the tokens of a resource, replacing the default estimate from its loaded contents,
+	 * its size or its contents read with `readResource`. Undefined when unknown.
+	 */
+	estimateResource?: (
+		resource: Resource,
+		signal: AbortSignal,
+	) => Promise<number | undefined> | number | undefined;
+	/** Read the content parts of a resource to estimate, defaults to the servers of `mcpExtension` */
+	readResource?: (uri: string, signal?: AbortSignal) => Promise<ResourceContents[]>;
+	/** Show the estimated total and budget in a panel below the editor, defaults to true */
+	indicator?: boolean;
+}
+
+function isContentParts(data: unknown): data is ResourceContentPart[] {
+	return (
+		Array.isArray(data) &&
+		data.length > 0 &&
+		data.every((part) => part?.type === "text" || part?.type === "blob")
+	);
+}
+
+// Sizes are estimated at 4 characters per token, binary contents being sent base64-encoded
+function estimateSize(bytes: number, binary: boolean): number {
+	const characters = binary ? Math.ceil(bytes / 3) * 4 : bytes;
+	return Math.ceil(characters / 4);
+}
+
+/**
+ * Estimate the tokens of a resource: from its loaded content parts, then its size in bytes,
+ * then its contents read from the server. Undefined when none is available.
+ * Only text is counted with `estimateTokens`, sizes and binary parts are counted by length.
+ */
+export async function estimateResourceTokens(
+	resource: Resource,
+	options: Pick<ResourceBudgetOptions, "estimateTokens" | "readResource"> & {
+		signal?: AbortSignal;
+	} = {},
+): Promise<number | undefined> {
+	const estimate = options.estimateTokens ?? estimateTokens;
+	const { data } = resource;
+
+	if (isContentParts(data)) {
+		return data.reduce(
+			(sum, part) =>
+				sum + (part.type === "text" ? estimate(part.text) : estimateSize(part.bytes.length, true)),
+			0,
+		);
+	}
+	if (resource.size !== undefined) {
+		return estimateSize(resource.size, !resource.mimeType?.startsWith("text/"));
+	}
+	if (!options.readResource) return undefined;
+
+	const contents = await options.readResource(resource.uri, options.signal);
+	return contents.reduce(
+		(sum, part) => sum + ("text" in part ? estimate(part.text) : Math.ceil(part.blob.length / 4)),
+		0,
+	);
+}
+
+function getTotalTokens(tokens: Map<string, number>): number {
+	let total = 0;
+	for (const count of tokens.values()) total += count;
+	return total;
+}
+
+function formatTokens(tokens: number): string {
+	return tokens.toLocaleString("en-US");
+}
+
+/**
+ * Warning for a mention of the resource, when it alone or all mentioned resources together
+ * are over budget. Null within budget, or without one.
+ */
+export function getResourceBudgetWarning(state: EditorState, uri: string): string | null {
+	const budget = state.field(resourceBudgetField, false);
+	if (!budget) return null;
+
+	const tokens = budget.tokens.get(uri);
+	if (
+		tokens !== undefined &&
+		budget.maxResourceTokens !== undefined &&
+		tokens > budget.maxResourceTokens
+	) {
+		return `About ${formatTokens(tokens)} tokens, over the budget of ${formatTokens(budget.maxResourceTokens)} tokens per resource`;
+	}
+
+	const total = getTotalTokens(budget.tokens);
+	if (tokens !== undefined && budget.maxTokens !== undefined && total > budget.maxTokens) {
+		return `Mentioned resources are about ${formatTokens(total)} tokens, over the budget of ${formatTokens(budget.maxTokens)} tokens`;
+	}
+	return null;
+}
+
+class ResourceBudgetPanel implements Panel {
+	dom: HTMLElement;
+
+	constructor(readonly view: EditorView) {
+		this.dom = document.createElement("div");
+		this.render();
+	}
+
+	update(update: ViewUpdate) {
+		if (
+			update.startState.field(resourceBudgetField, false) !==
+			update.state.field(resourceBudgetField, false)
+		) {
+			this.render();
+		}
+	}
+
+	render() {
+		const budget = this.view.state.field(resourceBudgetField, false);
+		const total = budget ? getTotalTokens(budget.tokens) : 0;
+		const over = budget?.maxTokens !== undefined && total > budget.maxTokens;
+
+		this.dom.className = over ? "cm-mcp-budget-panel cm-mcp-budget-over" : "cm-mcp-budget-panel";
+		const limit = budget?.maxTokens !== undefined ? ` / ${formatTokens(budget.maxTokens)}` : "";
+		const pending = budget?.pending ? " (estimating…)" : "";
+		this.dom.textContent = `≈ ${formatTokens(total)}${limit} tokens in mentioned resources${pending}`;
+	}
+}
+
+/**
+ * Estimate the tokens of mentioned resources as they are mentioned, into resourceBudgetField.
+ * Estimates are cached by URI until the resource is updated.
+ */
+function resourceTokenTracking(options: ResourceBudgetOptions) {
+	return ViewPlugin.fromClass(
+		class {
+			estimates = new Map<string, number | undefined>();
+			pending = new Map<string, AbortController>();
+			destroyed = false;
+
+			constructor(readonly view: EditorView) {
+				this.sync();
+			}
+
+			update(update: ViewUpdate) {
+				const previous = update.startState.field(resourcesField);
+				let resourcesUpdated = false;
+				for (const tr of update.transactions) {
+					for (const e of tr.effects) {
+						if (!e.is(updateResources)) continue;
+						resourcesUpdated = true;
+						// Listing resources again keeps estimates, refreshed contents or sizes do not
+						for (const [uri, resource] of e.value) {
+							const old = previous.get(uri);
+							const changed =
+								old &&
+								(resource.size !== old.size ||
+									(isContentParts(resource.data) && resource.data !== old.data));
+							if (changed) this.forget(uri);
+						}
+					}
+				}
+				if (update.docChanged || resourcesUpdated) {
+					this.sync();
+				}
+			}
+
+			forget(uri: string) {
+				this.estimates.delete(uri);
+				this.pending.get(uri)?.abort();
+				this.pending.delete(uri);
+			}
+
+			// Estimate new mentions, forget deleted ones, then publish the estimates
+			sync() {
+				const mentioned = new Set(extractResources(this.view).map(({ resource }) => resource.uri));
+				const resources = this.view.state.field(resourcesField);
+				for (const uri of mentioned) {
+					const resource = resources.get(uri);
+					if (resource && !this.estimates.has(uri) && !this.pending.has(uri)) {
+						void this.estimate(resource);
+					}
+				}
+				for (const uri of this.pending.keys()) {
+					if (!mentioned.has(uri)) this.forget(uri);
+				}
+				// Dispatching is not allowed during an update
+				queueMicrotask(() => this.publish());
+			}
+
+			async estimate(resource: Resource) {
+				const controller = new AbortController();
+				this.pending.set(resource.uri, controller);
+
+				let tokens: number | undefined;
+				try {
+					tokens = await (options.estimateResource
+						? options.estimateResource(resource, controller.signal)
+						: estimateResourceTokens(resource, { ...options, signal: controller.signal }));
+				} catch {
+					// Resources that cannot be estimated do not count
+					tokens = undefined;
+				}
+				if (controller.signal.aborted || this.destroyed) return;
+
+				this.pending.delete(resource.uri);
+				this.estimates.set(resource.uri, tokens);
+				this.publish();
+			}
+
+			publish() {
+				if (this.destroyed) return;
+				const budget = this.view.state.field(resourceBudgetField, false);
+				if (!budget) return;
+
+				const tokens = new Map<string, number>();
+				for (const { resource } of extractResources(this.view)) {
+					const estimate = this.estimates.get(resource.uri);
+					if (estimate !== undefined) tokens.set(resource.uri, estimate);
+				}
+				const pending = this.pending.size;
+
+				const unchanged =
+					budget.pending === pending &&
+					budget.tokens.size === tokens.size &&
+					[...tokens].every(([uri, count]) => budget.tokens.get(uri) === count);
+				if (!unchanged) {
+					this.view.dispatch({ effects: setResourceTokens.of({ tokens, pending }) });
+				}
+			}
+
+			destroy() {
+				this.destroyed = true;
+				for (const controller of this.pending.values()) controller.abort();
+				this.pending.clear();
+			}
+		},
+	);
+}
+
+/**
+ * Token budget of mentioned resources: estimates their tokens as they are mentioned,
+ * shows the total in a panel and has `resourceDecorations` warn about mentions over budget
+ */
+export function resourceBudget(options: ResourceBudgetOptions): Extension {
+	return [
+		resourceBudgetField.init(() => ({
+			maxTokens: options.maxTokens,
+			maxResourceTokens: options.maxResourceTokens,
+			tokens: new Map(),
+			pending: 0,
+		})),
+		resourceTokenTracking(options),
+		options.indicator === false ? [] : showPanel.of((view) => new ResourceBudgetPanel(view)),
+	];
+}
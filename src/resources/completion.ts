@@ -1,51 +1,410 @@
-import type { Completion, CompletionSource } from "@codemirror/autocomplete";
-import { updateResources } from "../state.js";
-import type { Resource } from "./resource.js";
+import {
+	type Completion,
+	type CompletionContext,
+	type CompletionResult,
+	type CompletionSource,
+	completionStatus,
+	insertCompletionText,
+	pickedCompletion,
+	startCompletion,
+} from "@codemirror/autocomplete";
+import type { EditorState } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import { getResourceIcons, getTriggers, resourcesField, updateResources } from "../state.js";
+import { escapeRegExp, getAbortSignal } from "../utils.js";
+import { type ResourceIconCompletion, getResourceIcon } from "./icons.js";
+import type { Resource, ResourceCompletionConfig, ResourceTemplate } from "./resource.js";
+import { type FuzzyMatch, matchResource } from "./search.js";
+import { getResourceSection } from "./sections.js";
+import {
+	type UriTemplateMatch,
+	decodeTemplateValue,
+	expandUriTemplate,
+	fromResourceTemplate,
+	getTemplatePrefix,
+	getTemplateVariables,
+	matchUriTemplate,
+} from "./template.js";
+
+// Resources picked recently are ranked higher, the most recent first
+const RECENT_LIMIT = 10;
+const RECENT_BOOST = 20;
+
+const DEFAULT_SEARCH_DELAY = 150;
+const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Matches a partially typed resource query, e.g. `@rea` or `@readme.md` for the `@` prefix
+ */
+function createMentionPattern(prefix: string): RegExp {
+	return new RegExp(`${escapeRegExp(prefix)}(\\w[\\w.-]*)?`);
+}
+
+/**
+ * Matches a partially typed uri mention, e.g. `@db://tables/us` for the `@` prefix
+ */
+function createPartialUriPattern(prefix: string): RegExp {
+	return new RegExp(`${escapeRegExp(prefix)}[\\w-]+(?:\\+[\\w-]+)?:\\/\\/\\S*`);
+}
+
+/**
+ * Match the resource mention being typed before the cursor, either a name (`@rea`)
+ * or a partial URI (`@db://tables/us`)
+ */
+export function matchResourceMention(context: CompletionContext, prefix = "@") {
+	return (
+		context.matchBefore(createMentionPattern(prefix)) ??
+		context.matchBefore(createPartialUriPattern(prefix))
+	);
+}
+
+/**
+ * Listed resources to store in resourcesField. Listings carry no contents, so known
+ * resources keep the data read or refreshed since.
+ */
+function getListedResources(state: EditorState, resources: Resource[]): Map<string, Resource> {
+	const known = state.field(resourcesField, false);
+	return new Map(
+		resources.map((resource) => {
+			const old = known?.get(resource.uri);
+			const listedData =
+				resource.data != null && !(Array.isArray(resource.data) && resource.data.length === 0);
+			return [resource.uri, old && !listedData ? { ...resource, data: old.data } : resource];
+		}),
+	);
+}
+
+function templateVariableCompletion(
+	template: ResourceTemplate,
+	match: UriTemplateMatch,
+	value: string,
+	completion: Partial<Completion>,
+): Completion {
+	return {
+		label: value,
+		type: "constant",
+		...completion,
+		apply: (view, picked, from, to) => {
+			const encoded = encodeURIComponent(value);
+			if (!match.last) {
+				// Move on to the next variable
+				view.dispatch({
+					...insertCompletionText(view.state, `${encoded}${match.suffix}`, from, to),
+					annotations: pickedCompletion.of(picked),
+				});
+				startCompletion(view);
+				return;
+			}
+
+			const values = { ...match.values, [match.variable]: value };
+			const uri = expandUriTemplate(template.uriTemplate, values);
+			const resource = fromResourceTemplate(template, uri, values);
+			view.dispatch({
+				...insertCompletionText(view.state, `${encoded}${match.suffix} `, from, to),
+				effects: updateResources.of(new Map([[uri, resource]])),
+				annotations: pickedCompletion.of(picked),
+			});
+		},
+	};
+}
+
+async function templateCompletion(
+	context: CompletionContext,
+	config: ResourceCompletionConfig,
+	prefix: string,
+	signal: AbortSignal,
+): Promise<CompletionResult | null> {
+	if (!config.getResourceTemplates) return null;
+
+	const uriWord = context.matchBefore(createPartialUriPattern(prefix));
+	if (!uriWord) return null;
+
+	const text = uriWord.text.slice(prefix.length);
+	const templates = await config.getResourceTemplates(signal);
+	for (const template of templates) {
+		const match = matchUriTemplate(template.uriTemplate, text);
+		if (!match) continue;
+
+		const value = decodeTemplateValue(match.value);
+		const suggestions =
+			(await config.completeTemplateArgument?.(
+				template,
+				{ name: match.variable, value },
+				signal,
+			)) ?? [];
+		if (signal.aborted) return null;
+
+		const options: Completion[] = [];
+		if (!suggestions.includes(value)) {
+			// Hint for the variable being filled in, applies the typed value
+			options.push(
+				templateVariableCompletion(template, match, value, {
+					label: value || match.variable,
+					displayLabel: value ? `${match.variable}: ${value}` : `{${match.variable}}`,
+					detail: template.name,
+					info: template.description,
+					type: "variable",
+					boost: 1,
+				}),
+			);
+		}
+		for (const suggestion of suggestions) {
+			options.push(
+				templateVariableCompletion(template, match, suggestion, { detail: match.variable }),
+			);
+		}
+
+		return {
+			from: uriWord.from + prefix.length + match.offset,
+			options,
+			filter: false,
+		};
+	}
+
+	return null;
+}
+
+interface RankedCompletion {
+	completion: Completion;
+	match: FuzzyMatch;
+	/** URI or URI template, to rank recently picked resources higher */
+	key: string;
+	/** Name the match ranges refer to */
+	name: string;
+}
+
+interface ResourceStream {
+	resources: Resource[];
+	done: boolean;
+	/** Set when the open completion is refreshed with a newly received page */
+	refresh: boolean;
+}
 
 export const resourceCompletion = (
-	getResources: () => Promise<Resource[]>,
+	getResources: (signal?: AbortSignal) => Promise<Resource[]>,
 	formatResource?: (resource: Resource) => Partial<Completion>,
+	config: ResourceCompletionConfig = {},
 ): CompletionSource => {
-	return async (context) => {
+	let stream: ResourceStream | null = null;
+	// URIs (or URI templates) of the resources picked so far, the most recent first
+	const recent: string[] = [];
+
+	const remember = (key: string) => {
+		const index = recent.indexOf(key);
+		if (index !== -1) recent.splice(index, 1);
+		recent.unshift(key);
+		recent.length = Math.min(recent.length, RECENT_LIMIT);
+	};
+
+	const getRecencyBoost = (key: string) => {
+		const index = recent.indexOf(key);
+		return index === -1 ? 0 : (RECENT_LIMIT - index) * RECENT_BOOST;
+	};
+
+	// Resolve with the first page, then stream the remaining pages in the background
+	const streamResources = async (
+		getResourcePages: () => AsyncIterable<Resource[]>,
+		view: EditorView | undefined,
+	): Promise<Resource[]> => {
+		// Reuse the pages received so far while a stream is still in flight or refreshing
+		if (stream && (!stream.done || stream.refresh)) {
+			stream.refresh = false;
+			return [...stream.resources];
+		}
+
+		const current: ResourceStream = { resources: [], done: false, refresh: false };
+		stream = current;
+		const pages = getResourcePages()[Symbol.asyncIterator]();
+		try {
+			const first = await pages.next();
+			if (first.done) {
+				current.done = true;
+				return [];
+			}
+			current.resources.push(...first.value);
+		} catch (error) {
+			current.done = true;
+			throw error;
+		}
+
+		void (async () => {
+			try {
+				for (let page = await pages.next(); !page.done; page = await pages.next()) {
+					current.resources.push(...page.value);
+					if (!view) continue;
+					view.dispatch({
+						effects: updateResources.of(getListedResources(view.state, page.value)),
+					});
+					// Refresh the open completion with the new page
+					if (completionStatus(view.state) === "active") {
+						current.refresh = true;
+						startCompletion(view);
+					}
+				}
+			} catch {
+				// Keep the pages received so far
+			} finally {
+				current.done = true;
+			}
+		})();
+
+		return [...current.resources];
+	};
+
+	// Search once typing pauses. CodeMirror aborts the query when the user types on.
+	const searchResources = async (
+		search: NonNullable<ResourceCompletionConfig["searchResources"]>,
+		query: string,
+		signal: AbortSignal,
+	): Promise<Resource[]> => {
+		await new Promise((resolve) => setTimeout(resolve, config.searchDelay ?? DEFAULT_SEARCH_DELAY));
+		if (signal.aborted) return [];
+
+		return search(query, { limit: config.searchLimit ?? DEFAULT_SEARCH_LIMIT, signal });
+	};
+
+	const complete = async (
+		context: CompletionContext,
+		signal: AbortSignal,
+	): Promise<CompletionResult | null> => {
+		const prefix = config.prefix ?? getTriggers(context.state).resource;
+
+		// Handle template variable completions (@scheme://path/{variable})
+		const templateResult = await templateCompletion(context, config, prefix, signal);
+		if (templateResult) return templateResult;
+
 		// Handle resource completions (@)
-		const resourceWord = context.matchBefore(/@(\w+)?/);
+		const resourceWord = context.matchBefore(createMentionPattern(prefix));
 		if (!resourceWord) return null;
 		if (resourceWord.from === resourceWord.to && !context.explicit) return null;
 
-		const resources = await getResources();
-		if (resources.length === 0) {
+		const query = resourceWord.text.slice(prefix.length);
+		const [resources, templates] = await Promise.all([
+			config.searchResources
+				? searchResources(config.searchResources, query, signal)
+				: config.getResourcePages
+					? // The stream outlives this query, so it is not cancelled with it
+						streamResources(config.getResourcePages, context.view)
+					: getResources(signal),
+			config.getResourceTemplates?.(signal) ?? [],
+		]);
+		// Superseded by further typing, the results are stale
+		if (signal.aborted) return null;
+		if (resources.length === 0 && templates.length === 0) {
 			return null;
 		}
-		const effects = updateResources.of(
-			new Map(resources.map((resource) => [resource.uri, resource])),
-		);
-
+		// Merged with the current state, data may have been refreshed while the query ran
 		if (context.view) {
-			context.view.dispatch({ effects });
+			const { view } = context;
+			view.dispatch({ effects: updateResources.of(getListedResources(view.state, resources)) });
 		}
 
+		const ranked: RankedCompletion[] = [];
+		const icons = getResourceIcons(context.state);
+
 		// Convert resources to completion items
-		const options = resources.map(
-			(resource: Resource): Completion => ({
-				label: `@${resource.name}`,
+		for (const resource of resources) {
+			// Search results may match on the backend in ways the local matcher does not see
+			const match =
+				matchResource(resource, query) ??
+				(config.searchResources ? { score: 0, ranges: [] } : null);
+			if (!match) continue;
+
+			const icon = getResourceIcon(resource, icons);
+			const completion: ResourceIconCompletion = {
+				label: `${prefix}${resource.name}`,
 				displayLabel: resource.name,
 				detail: resource.uri,
 				info: resource.description || undefined,
-				type: resource.mimeType ? "constant" : "variable",
+				type: icon.kind,
+				iconKind: icon.kind,
+				iconSrc: icon.src,
 				boost: resource.description ? 100 : 0,
+				...getResourceSection(resource, config),
 				// Override with custom formatter
 				...formatResource?.(resource),
 				apply: (view, _completion, from, to) => {
+					remember(resource.uri);
+					view.dispatch({
+						changes: { from, to, insert: `${prefix}${resource.uri} ` },
+					});
+				},
+			};
+			ranked.push({ completion, match, key: resource.uri, name: resource.name });
+		}
+
+		// Templates insert their literal prefix, then guide through each variable
+		for (const template of templates) {
+			const match = matchResource({ ...template, uri: template.uriTemplate }, query);
+			if (!match) continue;
+
+			const completion: ResourceIconCompletion = {
+				label: `${prefix}${template.name}`,
+				displayLabel: template.name,
+				detail: template.uriTemplate,
+				info: template.description || undefined,
+				type: "class",
+				iconSrc: getResourceIcon(template, icons).src,
+				boost: template.description ? 100 : 0,
+				...getResourceSection(template, config),
+				apply: (view, completion, from, to) => {
+					remember(template.uriTemplate);
+					if (getTemplateVariables(template.uriTemplate).length === 0) {
+						const resource = fromResourceTemplate(template, template.uriTemplate, {});
+						view.dispatch({
+							changes: { from, to, insert: `${prefix}${template.uriTemplate} ` },
+							effects: updateResources.of(new Map([[resource.uri, resource]])),
+						});
+						return;
+					}
+
 					view.dispatch({
-						changes: { from, to, insert: `@${resource.uri} ` },
+						...insertCompletionText(
+							view.state,
+							`${prefix}${getTemplatePrefix(template.uriTemplate)}`,
+							from,
+							to,
+						),
+						annotations: pickedCompletion.of(completion),
 					});
+					startCompletion(view);
 				},
-			}),
+			};
+			ranked.push({ completion, match, key: template.uriTemplate, name: template.name });
+		}
+
+		if (ranked.length === 0) return null;
+
+		// Rank by match score and recency, ties keep their boost and listing order
+		const score = ({ match, key }: RankedCompletion) => match.score + getRecencyBoost(key);
+		ranked.sort(
+			(a, b) => score(b) - score(a) || (b.completion.boost ?? 0) - (a.completion.boost ?? 0),
 		);
 
+		// Highlight the matched parts of the name, unless the formatter changed the label shown
+		const highlights = new Map<Completion, readonly number[]>();
+		for (const { completion, match, name } of ranked) {
+			if ((completion.displayLabel ?? completion.label) === name) {
+				highlights.set(completion, match.ranges);
+			}
+		}
+
 		return {
 			from: resourceWord.from,
-			options,
+			options: ranked.map(({ completion }) => completion),
+			filter: false,
+			getMatch: (completion) => highlights.get(completion) ?? [],
 		};
 	};
+
+	return async (context) => {
+		const signal = getAbortSignal(context);
+		try {
+			return await complete(context, signal);
+		} catch (error) {
+			// Cancelled requests reject, there is nothing to report
+			if (signal.aborted) return null;
+			throw error;
+		}
+	};
 };
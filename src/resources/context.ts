@@ -0,0 +1,223 @@
+import type { EditorView } from "@codemirror/view";
+import type { EmbeddedResource } from "@modelcontextprotocol/sdk/types.js";
+import { mcpProviderField } from "../state.js";
+import { extractResources } from "./extract.js";
+import type { Resource, ResourceContents } from "./resource.js";
+
+/**
+ * Reference to a resource without its content, as in the MCP `resource_link` content block
+ */
+export interface ResourceLink {
+	type: "resource_link";
+	uri: string;
+	name: string;
+	description?: string;
+	mimeType?: string;
+}
+
+export type PromptContextBlock = EmbeddedResource | ResourceLink;
+
+/**
+ * What happened to a resource that did not fit, or could not be read
+ */
+export interface PromptContextNote {
+	uri: string;
+	action: "truncated" | "linked" | "omitted";
+	reason: "budget" | "size" | "error";
+}
+
+export interface PromptContextOptions {
+	/**
+	 * Read the content parts of a resource.
+	 * Defaults to the servers of `mcpExtension`, resources are linked without either.
+	 */
+	readResource?: (uri: string, signal?: AbortSignal) => Promise<ResourceContents[]>;
+	/** Embed resource contents, or only link resources. Defaults to `"embed"` */
+	mode?: "embed" | "link";
+	/** Budget of the user text and embedded text, in estimated tokens. Unlimited by default */
+	maxTokens?: number;
+	/** Maximum number of characters of each embedded text part. Unlimited by default */
+	maxResourceLength?: number;
+	/** Maximum size of each embedded binary part, in bytes. Unlimited by default */
+	maxBlobBytes?: number;
+	/**
+	 * What becomes of content over the token budget: truncated text (binary parts are linked),
+	 * a link, or nothing. Defaults to `"truncate"`
+	 */
+	overflow?: "truncate" | "link" | "omit";
+	/** Estimate the tokens of some text, defaults to 4 characters per token */
+	estimateTokens?: (text: string) => number;
+	/** How mentions read in the text, defaults to a Markdown link `[name](uri)` */
+	formatMention?: (resource: Resource) => string;
+	/** Cancels reading the resources */
+	signal?: AbortSignal;
+}
+
+export interface PromptContext {
+	/** The editor text with mentions formatted by `formatMention` */
+	text: string;
+	/** Mentioned resources, once each, in order of first mention */
+	resources: Resource[];
+	/** Content blocks of the resources, ready to send along with the text */
+	content: PromptContextBlock[];
+	/** Resources truncated, linked or omitted to respect the limits */
+	notes: PromptContextNote[];
+}
+
+const TRUNCATION_MARKER = "\n[truncated]";
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function formatMarkdownLink(resource: Resource): string {
+	return `[${resource.name}](${resource.uri})`;
+}
+
+function toResourceLink(resource: Resource): ResourceLink {
+	const link: ResourceLink = { type: "resource_link", uri: resource.uri, name: resource.name };
+	if (resource.description) link.description = resource.description;
+	if (resource.mimeType) link.mimeType = resource.mimeType;
+	return link;
+}
+
+function toEmbeddedResource(contents: ResourceContents): EmbeddedResource {
+	return { type: "resource", resource: contents };
+}
+
+// Length of the text to keep for it to fit in `budget` tokens along with the truncation marker
+function getTruncatedLength(
+	text: string,
+	budget: number,
+	estimate: (text: string) => number,
+): number {
+	let length = Math.floor((text.length * (budget - estimate(TRUNCATION_MARKER))) / estimate(text));
+	// Estimates are not always proportional to the length, shorten until it fits
+	while (length > 0) {
+		const tokens = estimate(text.slice(0, length) + TRUNCATION_MARKER);
+		if (tokens <= budget) break;
+		length = Math.min(length - 1, Math.floor((length * budget) / tokens));
+	}
+	return Math.max(length, 0);
+}
+
+function getBlobBytes(blob: string): number {
+	// Base64 takes 4 characters for every 3 bytes
+	return Math.floor((blob.length * 3) / 4);
+}
+
+/**
+ * Build the context of an LLM request from the editor: the text with mentions formatted,
+ * the mentioned resources and their contents as MCP `resource` and `resource_link` blocks,
+ * within the size and token budgets
+ */
+export async function buildPromptContext(
+	view: EditorView,
+	options: PromptContextOptions = {},
+): Promise<PromptContext> {
+	const {
+		mode = "embed",
+		overflow = "truncate",
+		formatMention = formatMarkdownLink,
+		signal,
+	} = options;
+	const estimate = options.estimateTokens ?? estimateTokens;
+	const readResource =
+		options.readResource ??
+		(() => {
+			const provider = view.state.field(mcpProviderField, false);
+			return provider
+				? (uri: string, signal?: AbortSignal) => provider.readResourceContents(uri, signal)
+				: undefined;
+		})();
+
+	// Format mentions from the end, so earlier positions stay valid
+	const mentions = extractResources(view);
+	let text = view.state.doc.toString();
+	for (const { resource, start, end } of [...mentions].reverse()) {
+		text = text.slice(0, start) + formatMention(resource) + text.slice(end);
+	}
+
+	const resources: Resource[] = [];
+	const seen = new Set<string>();
+	for (const { resource } of mentions) {
+		if (seen.has(resource.uri)) continue;
+		seen.add(resource.uri);
+		resources.push(resource);
+	}
+
+	const content: PromptContextBlock[] = [];
+	const notes: PromptContextNote[] = [];
+	if (mode === "link" || !readResource) {
+		return { text, resources, content: resources.map(toResourceLink), notes };
+	}
+
+	const read = await Promise.all(
+		resources.map((resource) =>
+			readResource(resource.uri, signal).then(
+				(contents) => ({ resource, contents }),
+				(error) => {
+					if (signal?.aborted) throw error;
+					return { resource, contents: null };
+				},
+			),
+		),
+	);
+
+	let remaining = (options.maxTokens ?? Number.POSITIVE_INFINITY) - estimate(text);
+	for (const { resource, contents } of read) {
+		if (!contents) {
+			content.push(toResourceLink(resource));
+			notes.push({ uri: resource.uri, action: "linked", reason: "error" });
+			continue;
+		}
+
+		for (const part of contents) {
+			if ("blob" in part) {
+				if (options.maxBlobBytes !== undefined && getBlobBytes(part.blob) > options.maxBlobBytes) {
+					content.push(toResourceLink(resource));
+					notes.push({ uri: part.uri, action: "linked", reason: "size" });
+				} else {
+					content.push(toEmbeddedResource(part));
+				}
+				continue;
+			}
+
+			// One truncation pass, to the smaller of the size limit and the budget
+			let length = part.text.length;
+			let reason: PromptContextNote["reason"] | null = null;
+			if (options.maxResourceLength !== undefined && length > options.maxResourceLength) {
+				length = options.maxResourceLength;
+				reason = "size";
+			}
+			let partText = reason ? part.text.slice(0, length) + TRUNCATION_MARKER : part.text;
+
+			const tokens = estimate(partText);
+			if (tokens > remaining) {
+				// Keep the share of the text that fits in what is left of the budget
+				const budgetLength =
+					overflow === "truncate" && remaining > 0
+						? getTruncatedLength(part.text.slice(0, length), remaining, estimate)
+						: 0;
+				if (budgetLength > 0) {
+					partText = part.text.slice(0, budgetLength) + TRUNCATION_MARKER;
+					reason = "budget";
+				} else {
+					if (overflow !== "omit") content.push(toResourceLink(resource));
+					notes.push({
+						uri: part.uri,
+						action: overflow === "omit" ? "omitted" : "linked",
+						reason: "budget",
+					});
+					continue;
+				}
+			}
+
+			remaining -= estimate(partText);
+			content.push(toEmbeddedResource({ ...part, text: partText }));
+			if (reason) notes.push({ uri: part.uri, action: "truncated", reason });
+		}
+	}
+
+	return { text, resources, content, notes };
+}
@@ -1,33 +1,56 @@
-import type { Range } from "@codemirror/state";
+import { EditorSelection, type Range } from "@codemirror/state";
 import {
 	Decoration,
 	type DecorationSet,
-	type EditorView,
+	EditorView,
 	ViewPlugin,
 	type ViewUpdate,
 	WidgetType,
 } from "@codemirror/view";
-import { mcpOptionsField, resourcesField, updateResources } from "../state.js";
+import {
+	getResourceIcons,
+	getTriggers,
+	mcpOptionsField,
+	resourcesField,
+	setResourceTokens,
+	updateResources,
+} from "../state.js";
 import { matchAllURIs } from "../utils.js";
+import { getResourceBudgetWarning } from "./budget.js";
+import { type ResolvedResourceIcon, getResourceIcon, renderResourceIcon } from "./icons.js";
 import type { Resource } from "./resource.js";
 
 // Widget for resource decoration
 class ResourceWidget extends WidgetType {
 	constructor(
 		readonly resource: Resource,
+		readonly prefix: string,
+		readonly icon: ResolvedResourceIcon,
 		readonly view: EditorView,
+		/** Set when the resource is over the token budget */
+		readonly warning: string | null = null,
 	) {
 		super();
 	}
 
 	eq(other: ResourceWidget) {
-		return other.resource.uri === this.resource.uri;
+		return (
+			other.resource.uri === this.resource.uri &&
+			other.prefix === this.prefix &&
+			other.icon.kind === this.icon.kind &&
+			other.icon.src === this.icon.src &&
+			other.warning === this.warning
+		);
 	}
 
 	toDOM() {
 		const wrap = document.createElement("span");
 		wrap.className = "cm-resource-widget";
-		wrap.textContent = `@${this.resource.name}`;
+		wrap.append(renderResourceIcon(this.icon), `${this.prefix}${this.resource.name}`);
+		if (this.warning) {
+			wrap.classList.add("cm-resource-widget-over-budget");
+			wrap.title = this.warning;
+		}
 
 		const mcpOptions = this.view.state.field(mcpOptionsField, false);
 		const onResourceClick = mcpOptions?.onResourceClick;
@@ -66,20 +89,21 @@ class ResourceWidget extends WidgetType {
 class NotFoundResourceWidget extends WidgetType {
 	constructor(
 		readonly uri: string,
+		readonly prefix: string,
 		readonly view: EditorView,
 	) {
 		super();
 	}
 
 	eq(other: NotFoundResourceWidget) {
-		return other.uri === this.uri;
+		return other.uri === this.uri && other.prefix === this.prefix;
 	}
 
 	toDOM() {
 		const wrap = document.createElement("span");
 		wrap.className = "cm-not-found-resource-widget";
 		const guessName = this.uri.split("://")[1];
-		wrap.textContent = `@${guessName ?? this.uri}`;
+		wrap.textContent = `${this.prefix}${guessName ?? this.uri}`;
 
 		return wrap;
 	}
@@ -88,26 +112,34 @@ class NotFoundResourceWidget extends WidgetType {
 // Create decorations from resources
 function createResourceDecorations(view: EditorView): DecorationSet {
 	const resources = view.state.field(resourcesField);
+	const prefix = getTriggers(view.state).resource;
+	const icons = getResourceIcons(view.state);
 	const decorations: Range<Decoration>[] = [];
 
 	for (const { from, to } of view.visibleRanges) {
 		const text = view.state.doc.sliceString(from, to);
 
-		for (const match of matchAllURIs(text)) {
+		for (const match of matchAllURIs(text, prefix)) {
 			const start = from + match.index;
-			const uri = match[0].slice(1); // Remove @ prefix
+			const uri = match[0].slice(prefix.length);
 			const resource = resources.get(uri);
 
 			if (resource) {
 				decorations.push(
 					Decoration.replace({
-						widget: new ResourceWidget(resource, view),
+						widget: new ResourceWidget(
+							resource,
+							prefix,
+							getResourceIcon(resource, icons),
+							view,
+							getResourceBudgetWarning(view.state, uri),
+						),
 					}).range(start, start + match[0].length),
 				);
 			} else {
 				decorations.push(
 					Decoration.replace({
-						widget: new NotFoundResourceWidget(uri, view),
+						widget: new NotFoundResourceWidget(uri, prefix, view),
 					}).range(start, start + match[0].length),
 				);
 			}
@@ -117,26 +149,61 @@ function createResourceDecorations(view: EditorView): DecorationSet {
 	return Decoration.set(decorations);
 }
 
+// Mentions of known resources, which the cursor moves over as a whole
+function getAtomicMentions(decorations: DecorationSet): DecorationSet {
+	return decorations.update({
+		filter: (_from, _to, decoration) => decoration.spec.widget instanceof ResourceWidget,
+	});
+}
+
 // ViewPlugin for resource decorations
 export const resourceDecorations = ViewPlugin.fromClass(
 	class {
 		decorations: DecorationSet;
+		atomicRanges: DecorationSet;
 
 		constructor(view: EditorView) {
 			this.decorations = createResourceDecorations(view);
+			this.atomicRanges = getAtomicMentions(this.decorations);
 		}
 
 		update(update: ViewUpdate) {
 			if (
 				update.docChanged ||
 				update.viewportChanged ||
-				update.transactions.some((tr) => tr.effects.some((e) => e.is(updateResources)))
+				update.transactions.some((tr) =>
+					tr.effects.some((e) => e.is(updateResources) || e.is(setResourceTokens)),
+				)
 			) {
 				this.decorations = createResourceDecorations(update.view);
+				this.atomicRanges = getAtomicMentions(this.decorations);
 			}
 		}
 	},
 	{
 		decorations: (v) => v.decorations,
+		eventHandlers: {
+			// Cut whole mentions, so the clipboard holds the text the cut deletes
+			cut(_event, view) {
+				const selection = view.state.selection;
+				const ranges = selection.ranges.map((range) => {
+					if (range.empty) return range;
+					let { from, to } = range;
+					this.atomicRanges.between(from, to, (mentionFrom, mentionTo) => {
+						if (mentionFrom < to && mentionTo > from) {
+							from = Math.min(from, mentionFrom);
+							to = Math.max(to, mentionTo);
+						}
+					});
+					return EditorSelection.range(from, to);
+				});
+				if (ranges.some((range, i) => !range.eq(selection.ranges[i] ?? range))) {
+					view.dispatch({ selection: EditorSelection.create(ranges, selection.mainIndex) });
+				}
+				return false;
+			},
+		},
+		provide: (plugin) =>
+			EditorView.atomicRanges.of((view) => view.plugin(plugin)?.atomicRanges ?? Decoration.none),
 	},
 );
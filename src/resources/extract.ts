@@ -1,5 +1,5 @@
 import type { EditorView } from "@codemirror/view";
-import { resourcesField } from "../state.js";
+import { getTriggers, resourcesField } from "../state.js";
 import { matchAllURIs } from "../utils.js";
 import type { Resource } from "./resource.js";
 
@@ -10,17 +10,18 @@ export function extractResources(view: EditorView): Array<{
 }> {
 	const text = view.state.doc.toString();
 	const resources = view.state.field(resourcesField);
+	const prefix = getTriggers(view.state).resource;
 	const matches: Array<{
 		resource: Resource;
-		// Position in the text, including the @ prefix
+		// Position in the text, including the prefix
 		start: number;
 		end: number;
 	}> = [];
-	for (const match of matchAllURIs(text)) {
+	for (const match of matchAllURIs(text, prefix)) {
 		const start = match.index;
 		const end = start + match[0].length;
 
-		const uri = match[0].slice(1); // Remove @ prefix
+		const uri = match[0].slice(prefix.length);
 		const resource = resources.get(uri);
 		if (resource) {
 			matches.push({ resource: resource, start, end });
@@ -1,15 +1,28 @@
 import { type TooltipView, hoverTooltip } from "@codemirror/view";
-import { resourcesField } from "../state.js";
+import { getResourceIcons, getTriggers, resourcesField } from "../state.js";
 import { matchAllURIs } from "../utils.js";
+import { type ResourceIconRegistry, getResourceIcon, renderResourceIcon } from "./icons.js";
+import {
+	type ReadResourceContents,
+	type ResourcePreviewOptions,
+	cachePreviewReads,
+	withResourcePreview,
+} from "./preview.js";
 import type { Resource } from "./resource.js";
 
-export function createDefaultTooltip(resource: Resource): TooltipView {
+export function createDefaultTooltip(
+	resource: Resource,
+	icons?: ResourceIconRegistry,
+): TooltipView {
 	const dom = document.createElement("div");
 	dom.className = "cm-tooltip-cursor";
 
 	const title = document.createElement("div");
 	title.className = "cm-tooltip-cursor-title";
-	title.textContent = `${resource.name} (${resource.uri})`;
+	title.append(
+		renderResourceIcon(getResourceIcon(resource, icons)),
+		`${resource.name} (${resource.uri})`,
+	);
 	dom.appendChild(title);
 
 	if (resource.description) {
@@ -40,13 +53,14 @@ export function findResourceAtPosition(
 	pos: number,
 	resources: Map<string, Resource>,
 	lineStart = 0,
+	prefix = "@",
 ): ResourceMatch | null {
-	for (const match of matchAllURIs(text)) {
+	for (const match of matchAllURIs(text, prefix)) {
 		const start = lineStart + match.index;
 		const end = start + match[0].length;
 
 		if (pos >= start && pos <= end) {
-			const uri = match[0].slice(1); // Remove @ prefix
+			const uri = match[0].slice(prefix.length);
 			const resource = resources.get(uri);
 			if (resource) {
 				return { resource, start, end };
@@ -58,15 +72,23 @@ export function findResourceAtPosition(
 
 export interface HoverResourceOptions {
 	createTooltip?: (resource: Resource) => TooltipView;
+	/** Read resources to preview their content in the default tooltip, no preview without it */
+	readResource?: ReadResourceContents;
+	/** Size limits and languages of the preview, false disables it */
+	preview?: ResourcePreviewOptions | false;
 }
 
 export function hoverResource(options: HoverResourceOptions) {
+	// Hovering a mention again reuses its contents until the resource is refreshed
+	const readPreview = options.readResource && cachePreviewReads(options.readResource);
+
 	return hoverTooltip((view, pos) => {
 		const { from, text } = view.state.doc.lineAt(pos);
 		const resources = view.state.field(resourcesField);
+		const prefix = getTriggers(view.state).resource;
 
 		// Fallback: try to find resource in the document text (works for non-decorated resources)
-		const result = findResourceAtPosition(text, pos, resources, from);
+		const result = findResourceAtPosition(text, pos, resources, from, prefix);
 		if (!result) return null;
 
 		return {
@@ -74,8 +96,16 @@ export function hoverResource(options: HoverResourceOptions) {
 			end: result.end,
 			above: true,
 			create() {
-				const createTooltip = options.createTooltip ?? createDefaultTooltip;
-				return createTooltip(result.resource);
+				if (options.createTooltip) return options.createTooltip(result.resource);
+
+				const tooltip = createDefaultTooltip(result.resource, getResourceIcons(view.state));
+				if (!readPreview || options.preview === false) return tooltip;
+				return withResourcePreview(
+					tooltip,
+					result.resource.uri,
+					readPreview(result.resource),
+					options.preview,
+				);
 			},
 		};
 	});
@@ -0,0 +1,144 @@
+import type { Completion } from "@codemirror/autocomplete";
+import type { Resource, ResourceIcon } from "./resource.js";
+
+/**
+ * Icons of resources, by resource type (the URI scheme) and MIME type.
+ * Icon kinds are suffixes of the `cm-mcp-resource-icon-<kind>` CSS class, inline, in hover tooltips
+ * and in the completion list.
+ */
+export interface ResourceIconOptions {
+	/** Icon kind per resource type, e.g. `{ db: "dataset" }` */
+	types?: Record<string, string>;
+	/** Icon kind per MIME type or family, e.g. `{ "application/json": "dataset", "image/*": "image" }` */
+	mimeTypes?: Record<string, string>;
+	/** Show the `icons` sent by MCP servers instead, when present. Defaults to true */
+	serverIcons?: boolean;
+}
+
+export type ResourceIconRegistry = Required<ResourceIconOptions>;
+
+/** Fields the icon of a resource or resource template is chosen by */
+export type ResourceIconFields = Pick<Resource, "type" | "mimeType" | "icons">;
+
+export interface ResolvedResourceIcon {
+	kind: string;
+	/** Image sent by the server */
+	src?: string;
+}
+
+// Glyphs of the built-in icon kinds, shown by `resourceTheme`. Other kinds only get their CSS class.
+export const RESOURCE_ICON_GLYPHS: Record<string, string> = {
+	file: "🗎",
+	text: "¶",
+	dataset: "▦",
+	function: "ƒ",
+	variable: "𝑥",
+	image: "▣",
+	audio: "♪",
+	video: "▶",
+};
+
+export const DEFAULT_RESOURCE_ICONS: ResourceIconRegistry = {
+	types: {
+		file: "file",
+		db: "dataset",
+		postgres: "dataset",
+		mysql: "dataset",
+		sqlite: "dataset",
+		function: "function",
+	},
+	mimeTypes: {
+		"text/csv": "dataset",
+		"application/json": "dataset",
+		"application/x-ndjson": "dataset",
+		"application/vnd.apache.parquet": "dataset",
+		"application/pdf": "file",
+		"image/*": "image",
+		"audio/*": "audio",
+		"video/*": "video",
+		"text/*": "text",
+	},
+	serverIcons: true,
+};
+
+// Only images over https or inline, as the MCP specification recommends
+const SAFE_ICON_PATTERN = /^(?:https:|data:image\/)/;
+
+/**
+ * Add icon kinds to the defaults
+ */
+export function createResourceIconRegistry(
+	options: ResourceIconOptions = {},
+): ResourceIconRegistry {
+	return {
+		types: { ...DEFAULT_RESOURCE_ICONS.types, ...options.types },
+		mimeTypes: { ...DEFAULT_RESOURCE_ICONS.mimeTypes, ...options.mimeTypes },
+		serverIcons: options.serverIcons ?? DEFAULT_RESOURCE_ICONS.serverIcons,
+	};
+}
+
+function getServerIcon(icons: ResourceIcon[] | undefined): string | undefined {
+	const safe = icons?.filter((icon) => SAFE_ICON_PATTERN.test(icon.src)) ?? [];
+	// Icons for a single theme may be unreadable on the other one
+	return (safe.find((icon) => !icon.theme) ?? safe[0])?.src;
+}
+
+/**
+ * Icon of a resource: the server's icon when allowed, then its MIME type, MIME family and type.
+ * Resources matching none are files when they have a MIME type, variables otherwise.
+ */
+export function getResourceIcon(
+	resource: ResourceIconFields,
+	registry: ResourceIconRegistry = DEFAULT_RESOURCE_ICONS,
+): ResolvedResourceIcon {
+	const { mimeType, type } = resource;
+	const family = mimeType?.split("/")[0];
+	const kind =
+		(mimeType && registry.mimeTypes[mimeType]) ||
+		(family && registry.mimeTypes[`${family}/*`]) ||
+		registry.types[type] ||
+		(mimeType ? "file" : "variable");
+
+	const src = registry.serverIcons ? getServerIcon(resource.icons) : undefined;
+	return src ? { kind, src } : { kind };
+}
+
+/**
+ * Inline icon element, the server's image or the glyph of the icon kind from the theme
+ */
+export function renderResourceIcon(icon: ResolvedResourceIcon): HTMLElement {
+	const dom = document.createElement("span");
+	dom.className = `cm-mcp-resource-icon cm-mcp-resource-icon-${icon.kind}`;
+	dom.setAttribute("aria-hidden", "true");
+
+	if (icon.src) {
+		const img = document.createElement("img");
+		img.src = icon.src;
+		img.alt = "";
+		dom.appendChild(img);
+	}
+	return dom;
+}
+
+export interface ResourceIconCompletion extends Completion {
+	/** Icon kind of the resource, rendered in place of the icon of the completion type */
+	iconKind?: string;
+	/** Image sent by the server, rendered in place of the icon of the completion type */
+	iconSrc?: string;
+}
+
+/**
+ * Renders the icon of a resource completion, the theme hides the icon of its type.
+ * Completions of other sources keep the icons of their type.
+ */
+export const resourceIconOption = {
+	render(completion: ResourceIconCompletion) {
+		if (!completion.iconKind && !completion.iconSrc) return null;
+		return renderResourceIcon({
+			kind: completion.iconKind ?? completion.type ?? "file",
+			src: completion.iconSrc,
+		});
+	},
+	// Right after the icon of the completion type
+	position: 21,
+};
@@ -1,181 +1,119 @@
-import { EditorState, Transaction } from "@codemirror/state";
-import { resourcesField } from "../state.js";
+import { EditorState, Transaction, type TransactionSpec } from "@codemirror/state";
+import { getTriggers, resourcesField } from "../state.js";
 import { matchAllURIs } from "../utils.js";
 
 /**
- * Check if cursor is at the end of a resource
+ * Mentions of known resources on the lines between `from` and `to`
  */
-function getResourceAtCursor(
+function getResourceRanges(
 	state: EditorState,
-	pos: number,
-): { from: number; to: number; uri: string } | null {
+	from: number,
+	to: number,
+): Array<{ from: number; to: number }> {
 	const resources = state.field(resourcesField);
-	const doc = state.doc;
-
-	// Look at the entire line to find all resources
-	const line = doc.lineAt(pos);
-	const lineText = doc.sliceString(line.from, line.to);
-
-	// Find all resources in the line
-	const matches = Array.from(matchAllURIs(lineText));
-	if (matches.length === 0) return null;
-
-	// Look for a resource that ends exactly at the cursor position
-	for (const match of matches) {
-		const resourceStart = line.from + match.index;
-		const resourceEnd = resourceStart + match[0].length;
-		const uri = match[0].slice(1); // Remove @ prefix
-
-		// Check if cursor is at the end of this resource and resource exists
-		if (pos === resourceEnd && resources.has(uri)) {
-			return { from: resourceStart, to: resourceEnd, uri };
+	const prefix = getTriggers(state).resource;
+	const ranges: Array<{ from: number; to: number }> = [];
+
+	for (let pos = from; pos <= to; ) {
+		const line = state.doc.lineAt(pos);
+		for (const match of matchAllURIs(line.text, prefix)) {
+			const resourceStart = line.from + match.index;
+			if (resources.has(match[0].slice(prefix.length))) {
+				ranges.push({ from: resourceStart, to: resourceStart + match[0].length });
+			}
 		}
+		pos = line.to + 1;
 	}
 
-	return null;
+	return ranges;
 }
 
 /**
- * Check if cursor is at the beginning of a resource
+ * Extend deletions to whole resource mentions: those the deleted text overlaps, and those a
+ * cursor deletes into from their end or start
  */
-function getResourceAfterCursor(
-	state: EditorState,
-	pos: number,
-): { from: number; to: number; uri: string } | null {
-	const resources = state.field(resourcesField);
-	const doc = state.doc;
-
-	// Look forward from cursor to find resource
-	const lineEnd = doc.lineAt(pos).to;
-	const textAfter = doc.sliceString(pos, lineEnd);
-
-	// Find resource starting at cursor position
-	const matches = Array.from(matchAllURIs(textAfter));
-	if (matches.length === 0) return null;
-
-	const firstMatch = matches[0];
-	if (!firstMatch) return null;
-	if (firstMatch.index !== 0) return null; // Resource must start at cursor
-
-	const resourceStart = pos;
-	const resourceEnd = pos + firstMatch[0].length;
-	const uri = firstMatch[0].slice(1); // Remove @ prefix
-
-	// Check if resource exists
-	if (resources.has(uri)) {
-		return { from: resourceStart, to: resourceEnd, uri };
-	}
-
-	return null;
-}
-
-/**
- * Get all resources in the document and find which one contains the cursor position
- */
-function getResourceAtPosition(
-	state: EditorState,
-	pos: number,
-): { from: number; to: number; uri: string } | null {
-	const resources = state.field(resourcesField);
-	const doc = state.doc;
-
-	// Search around the cursor position for resources
-	const line = doc.lineAt(pos);
-	const lineText = doc.sliceString(line.from, line.to);
-	const matches = Array.from(matchAllURIs(lineText));
-
-	for (const match of matches) {
-		const resourceStart = line.from + match.index;
-		const resourceEnd = resourceStart + match[0].length;
-		const uri = match[0].slice(1); // Remove @ prefix
-
-		// Check if cursor is within this resource (not at boundaries) and it exists
-		if (pos > resourceStart && pos < resourceEnd && resources.has(uri)) {
-			return { from: resourceStart, to: resourceEnd, uri };
+function expandDeletion(tr: Transaction, userEvent: string): Transaction | TransactionSpec[] {
+	const { startState } = tr;
+	const original: Array<{ from: number; to: number }> = [];
+	let inserts = false;
+	tr.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+		if (inserted.length > 0) inserts = true;
+		if (toA > fromA) original.push({ from: fromA, to: toA });
+	});
+	if (inserts) return tr;
+
+	const deleted = original.map((change) => {
+		let { from, to } = change;
+		for (const range of getResourceRanges(startState, from, to)) {
+			if (range.from < to && range.to > from) {
+				from = Math.min(from, range.from);
+				to = Math.max(to, range.to);
+			}
 		}
+		return { from, to };
+	});
+
+	for (const cursor of startState.selection.ranges) {
+		if (!cursor.empty) continue;
+		const range = getResourceRanges(startState, cursor.head, cursor.head).find((range) =>
+			userEvent === "delete.backward"
+				? range.to === cursor.head
+				: userEvent === "delete.forward" && range.from === cursor.head,
+		);
+		if (range) deleted.push(range);
 	}
 
-	return null;
-}
-
-/**
- * Find the next resource boundary when moving left
- */
-function getResourceBoundaryLeft(state: EditorState, pos: number): number | null {
-	const resources = state.field(resourcesField);
-	const doc = state.doc;
-	const line = doc.lineAt(pos);
-	const lineText = doc.sliceString(line.from, pos);
-	const matches = Array.from(matchAllURIs(lineText));
-
-	// Find the rightmost resource that ends before or at cursor position
-	let bestBoundary: number | null = null;
-	for (const match of matches) {
-		const resourceStart = line.from + match.index;
-		const resourceEnd = resourceStart + match[0].length;
-		const uri = match[0].slice(1);
-
-		if (resources.has(uri) && resourceEnd <= pos) {
-			if (pos > resourceEnd) {
-				// Cursor is after resource - jump to end of resource
-				bestBoundary = resourceEnd;
-			} else if (pos === resourceEnd) {
-				// Cursor is at end of resource - jump to start of resource
-				bestBoundary = resourceStart;
-			}
+	// Merge overlapping deletions, changes may not overlap
+	const merged: Array<{ from: number; to: number }> = [];
+	for (const range of deleted.sort((a, b) => a.from - b.from)) {
+		const last = merged[merged.length - 1];
+		if (last && range.from <= last.to) {
+			last.to = Math.max(last.to, range.to);
+		} else {
+			merged.push({ ...range });
 		}
 	}
 
-	return bestBoundary;
+	const unchanged =
+		merged.length === original.length &&
+		merged.every((range, i) => range.from === original[i]?.from && range.to === original[i]?.to);
+	if (unchanged) return tr;
+
+	const changes = startState.changes(merged.map((range) => ({ ...range, insert: "" })));
+	return [
+		{
+			changes,
+			selection: startState.selection.map(changes),
+			scrollIntoView: true,
+			userEvent,
+		},
+	];
 }
 
 /**
- * Find the next resource boundary when moving right
+ * Keep text typed next to resource mentions apart from them, and delete mentions as a whole.
+ * Cursor motion over mentions and prompt commands, and deleting commands, rely on the atomic
+ * ranges of `resourceDecorations` and `promptDecorations`.
  */
-function getResourceBoundaryRight(state: EditorState, pos: number): number | null {
-	const resources = state.field(resourcesField);
-	const doc = state.doc;
-	const line = doc.lineAt(pos);
-	const lineText = doc.sliceString(line.from, line.to);
-	const matches = Array.from(matchAllURIs(lineText));
-
-	// Find the leftmost resource that starts at or after cursor position
-	for (const match of matches) {
-		const resourceStart = line.from + match.index;
-		const resourceEnd = resourceStart + match[0].length;
-		const uri = match[0].slice(1);
-
-		if (resources.has(uri) && resourceStart >= pos) {
-			if (pos < resourceStart) {
-				// Cursor is before resource - jump to start of resource
-				return resourceStart;
-			}
-			if (pos === resourceStart) {
-				// Cursor is at start of resource - jump to end of resource
-				return resourceEnd;
-			}
-		}
-	}
-
-	return null;
-}
-
 export const resourceInputFilter = EditorState.transactionFilter.of((tr: Transaction) => {
 	const userEvent = tr.annotation(Transaction.userEvent);
 	if (!userEvent) return tr;
 
-	const sel = tr.startState.selection.main;
-	if (!sel.empty) return tr;
+	// Handle deletion events, deleting mentions as a whole
+	if (userEvent.startsWith("delete")) {
+		return expandDeletion(tr, userEvent);
+	}
 
-	// Handle text insertion near resources
-	if (userEvent === "input.type" || userEvent.startsWith("input")) {
+	// Handle text insertion near resources, typing over a selection is left as is
+	const replacesSelection = tr.startState.selection.ranges.some((range) => !range.empty);
+	if (userEvent.startsWith("input") && !replacesSelection) {
 		// Check if we're inserting text
 		if (tr.changes.empty) return tr;
 
 		const resources = tr.startState.field(resourcesField);
+		const prefix = getTriggers(tr.startState).resource;
 		const doc = tr.startState.doc;
 		let modifiedChanges = false;
-		let cursorAdjustment = 0;
 
 		const newChanges: Array<{ from: number; to: number; insert: string }> = [];
 
@@ -192,7 +130,7 @@ export const resourceInputFilter = EditorState.transactionFilter.of((tr: Transac
 			// Find resources around the insertion point
 			const line = doc.lineAt(insertPos);
 			const lineText = doc.sliceString(line.from, line.to);
-			const matches = Array.from(matchAllURIs(lineText));
+			const matches = Array.from(matchAllURIs(lineText, prefix));
 
 			let needsSpaceBefore = false;
 			let needsSpaceAfter = false;
@@ -200,7 +138,7 @@ export const resourceInputFilter = EditorState.transactionFilter.of((tr: Transac
 			for (const match of matches) {
 				const resourceStart = line.from + match.index;
 				const resourceEnd = resourceStart + match[0].length;
-				const uri = match[0].slice(1);
+				const uri = match[0].slice(prefix.length);
 
 				if (resources.has(uri)) {
 					// Check if inserting directly before a resource
@@ -235,11 +173,9 @@ export const resourceInputFilter = EditorState.transactionFilter.of((tr: Transac
 			let finalText = insertedText;
 			if (needsSpaceBefore) {
 				finalText = ` ${finalText}`;
-				cursorAdjustment += 1;
 			}
 			if (needsSpaceAfter) {
 				finalText = ` ${finalText}`;
-				cursorAdjustment += 1;
 			}
 
 			if (finalText !== insertedText) {
@@ -250,85 +186,14 @@ export const resourceInputFilter = EditorState.transactionFilter.of((tr: Transac
 		});
 
 		if (modifiedChanges) {
-			// Adjust cursor position if we added spaces
-			const newSelection = tr.selection
-				? {
-						anchor: tr.selection.main.anchor + cursorAdjustment,
-						head: tr.selection.main.head + cursorAdjustment,
-					}
-				: undefined;
-
+			// Every cursor lands after its inserted text, spaces included
+			const changes = tr.startState.changes(newChanges);
 			return [
 				{
-					changes: newChanges,
-					selection: newSelection,
+					changes,
+					selection: tr.startState.selection.map(changes, 1),
 					scrollIntoView: tr.scrollIntoView,
-				},
-			];
-		}
-	}
-
-	// Handle deletion events
-	if (userEvent === "delete.backward" || userEvent === "delete.forward") {
-		let resource: { from: number; to: number; uri: string } | null = null;
-		if (userEvent === "delete.backward") {
-			resource = getResourceAtCursor(tr.startState, sel.head);
-		} else if (userEvent === "delete.forward") {
-			resource = getResourceAfterCursor(tr.startState, sel.head);
-		}
-		if (!resource) return tr;
-
-		// Replace the resource with nothing, keep cursor at start
-		return [
-			{
-				changes: { from: resource.from, to: resource.to, insert: "" },
-				selection: { anchor: resource.from },
-				scrollIntoView: true,
-			},
-		];
-	}
-
-	// Handle cursor movement events - check if it's a selection change with no selection
-	// BUT only if it's not a text insertion (input events should be handled above)
-	if (
-		tr.selection?.main.empty &&
-		sel.empty &&
-		!userEvent.startsWith("input") &&
-		userEvent !== "input.type"
-	) {
-		// This is likely a cursor movement (arrow keys, mouse clicks, etc.)
-		const oldPos = sel.head;
-		const newPos = tr.selection.main.head;
-		let targetPos: number | null = null;
-
-		if (newPos < oldPos) {
-			// Moving left
-			const currentResource = getResourceAtPosition(tr.startState, oldPos);
-			if (currentResource && oldPos > currentResource.from) {
-				// If cursor was inside a resource, jump to the start
-				targetPos = currentResource.from;
-			} else {
-				// Check for resource boundary to the left
-				targetPos = getResourceBoundaryLeft(tr.startState, oldPos);
-			}
-		} else if (newPos > oldPos) {
-			// Moving right
-			const currentResource = getResourceAtPosition(tr.startState, oldPos);
-			if (currentResource && oldPos < currentResource.to) {
-				// If cursor was inside a resource, jump to the end
-				targetPos = currentResource.to;
-			} else {
-				// Check for resource boundary to the right
-				targetPos = getResourceBoundaryRight(tr.startState, oldPos);
-			}
-		}
-
-		// If we found a target position, override the cursor movement
-		if (targetPos !== null && targetPos !== newPos) {
-			return [
-				{
-					selection: { anchor: targetPos },
-					scrollIntoView: true,
+					userEvent,
 				},
 			];
 		}
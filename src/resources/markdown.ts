@@ -0,0 +1,127 @@
+/**
+ * Minimal Markdown rendering for previews: headings, lists, quotes, code blocks, paragraphs,
+ * and inline code, emphasis and links. Builds DOM nodes, never HTML strings.
+ */
+
+// `code`, **strong**, *em* or _em_, [text](url)
+const INLINE_PATTERN = /`([^`]+)`|\*\*([^*]+)\*\*|\*([^*]+)\*|_([^_]+)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK_PATTERN = /^(?:https?:|mailto:)/i;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^(```|~~~)/;
+
+function renderInline(text: string): Node[] {
+	const nodes: Node[] = [];
+	let last = 0;
+	for (const match of text.matchAll(INLINE_PATTERN)) {
+		if (match.index > last) nodes.push(document.createTextNode(text.slice(last, match.index)));
+		last = match.index + match[0].length;
+
+		const [, code, strong, em, underscored, label, href] = match;
+		let element: HTMLElement;
+		if (code !== undefined) {
+			element = document.createElement("code");
+			element.textContent = code;
+		} else if (strong !== undefined) {
+			element = document.createElement("strong");
+			element.append(...renderInline(strong));
+		} else if (em !== undefined || underscored !== undefined) {
+			element = document.createElement("em");
+			element.append(...renderInline(em ?? underscored ?? ""));
+		} else if (href && SAFE_LINK_PATTERN.test(href)) {
+			const link = document.createElement("a");
+			link.href = href;
+			link.target = "_blank";
+			link.rel = "noopener noreferrer";
+			link.append(...renderInline(label ?? href));
+			element = link;
+		} else {
+			// Links to other schemes show as text
+			nodes.push(document.createTextNode(label ?? ""));
+			continue;
+		}
+		nodes.push(element);
+	}
+	if (last < text.length) nodes.push(document.createTextNode(text.slice(last)));
+	return nodes;
+}
+
+function createBlock(tag: string, text: string): HTMLElement {
+	const element = document.createElement(tag);
+	element.append(...renderInline(text));
+	return element;
+}
+
+export function renderMarkdown(markdown: string): HTMLElement {
+	const root = document.createElement("div");
+	root.className = "cm-mcp-markdown";
+
+	let paragraph: string[] = [];
+	let list = null as HTMLElement | null;
+	let code: string[] | null = null;
+
+	const flush = () => {
+		if (paragraph.length > 0) root.appendChild(createBlock("p", paragraph.join(" ")));
+		paragraph = [];
+		list = null;
+	};
+
+	for (const line of markdown.split("\n")) {
+		if (code) {
+			if (FENCE_PATTERN.test(line)) {
+				const pre = document.createElement("pre");
+				pre.textContent = code.join("\n");
+				root.appendChild(pre);
+				code = null;
+			} else {
+				code.push(line);
+			}
+			continue;
+		}
+
+		if (FENCE_PATTERN.test(line)) {
+			flush();
+			code = [];
+			continue;
+		}
+
+		const heading = HEADING_PATTERN.exec(line);
+		const bullet = BULLET_PATTERN.exec(line);
+		const ordered = ORDERED_PATTERN.exec(line);
+		const quote = QUOTE_PATTERN.exec(line);
+
+		if (heading) {
+			flush();
+			root.appendChild(createBlock(`h${heading[1]?.length ?? 1}`, heading[2] ?? ""));
+		} else if (bullet || ordered) {
+			const tag = bullet ? "UL" : "OL";
+			if (paragraph.length > 0 || list?.tagName !== tag) flush();
+			if (!list) {
+				list = document.createElement(tag.toLowerCase());
+				root.appendChild(list);
+			}
+			list.appendChild(createBlock("li", (bullet ?? ordered)?.[1] ?? ""));
+		} else if (quote) {
+			flush();
+			root.appendChild(createBlock("blockquote", quote[1] ?? ""));
+		} else if (line.trim() === "") {
+			flush();
+		} else {
+			list = null;
+			paragraph.push(line.trim());
+		}
+	}
+
+	// Unterminated code blocks, e.g. cut off by the preview size limit
+	if (code) {
+		const pre = document.createElement("pre");
+		pre.textContent = code.join("\n");
+		root.appendChild(pre);
+	}
+	flush();
+
+	return root;
+}
@@ -0,0 +1,338 @@
+import {
+	LanguageDescription,
+	defaultHighlightStyle,
+	syntaxHighlighting,
+} from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { EditorView, type TooltipView } from "@codemirror/view";
+import { renderMarkdown } from "./markdown.js";
+import type { Resource, ResourceContents } from "./resource.js";
+
+export interface ResourcePreviewOptions {
+	/** Maximum number of characters of text shown, defaults to 4000 */
+	maxLength?: number;
+	/** Maximum number of lines of code shown, defaults to 20 */
+	maxLines?: number;
+	/** Maximum number of CSV rows shown, header included, defaults to 10 */
+	maxRows?: number;
+	/** Maximum size of images shown, in bytes, defaults to 1MB */
+	maxImageBytes?: number;
+	/**
+	 * Languages to highlight code with, matched by file name then MIME type,
+	 * e.g. `languages` from `@codemirror/language-data`. Code is shown as plain text without.
+	 */
+	languages?: readonly LanguageDescription[];
+}
+
+/** Reads the content parts of a resource, the signal aborts once the tooltip closes */
+export type ReadResourceContents = (
+	uri: string,
+	signal: AbortSignal,
+) => Promise<ResourceContents[]>;
+
+const DEFAULT_MAX_LENGTH = 4000;
+const DEFAULT_MAX_LINES = 20;
+const DEFAULT_MAX_ROWS = 10;
+const DEFAULT_MAX_IMAGE_BYTES = 1_000_000;
+
+const MARKDOWN_TYPES = ["text/markdown", "text/x-markdown"];
+const TABLE_SEPARATORS: Record<string, string> = {
+	"text/csv": ",",
+	"text/tab-separated-values": "\t",
+};
+
+interface RenderedPreview {
+	dom: HTMLElement;
+	destroy?: () => void;
+}
+
+function createElement(className: string, text?: string): HTMLElement {
+	const element = document.createElement("div");
+	element.className = className;
+	if (text !== undefined) element.textContent = text;
+	return element;
+}
+
+// Cut text to the size limits, noting what was left out
+function truncate(text: string, maxLength: number, maxLines: number) {
+	let truncated = text.length > maxLength;
+	let shown = truncated ? text.slice(0, maxLength) : text;
+	const lines = shown.split("\n");
+	if (lines.length > maxLines) {
+		shown = lines.slice(0, maxLines).join("\n");
+		truncated = true;
+	}
+	return { text: shown, truncated };
+}
+
+// Split CSV rows, honoring quoted fields with separators, quotes and line breaks
+function parseTable(text: string, separator: string, maxRows: number): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === "") {
+			quoted = true;
+		} else if (char === separator) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (rows.length < maxRows && (field || row.length > 0)) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows;
+}
+
+function renderTable(text: string, separator: string, maxRows: number): HTMLElement {
+	const table = document.createElement("table");
+	table.className = "cm-mcp-preview-table";
+	parseTable(text, separator, maxRows).forEach((cells, index) => {
+		const tr = table.insertRow();
+		for (const cell of cells) {
+			const td = document.createElement(index === 0 ? "th" : "td");
+			td.textContent = cell;
+			tr.appendChild(td);
+		}
+	});
+	return table;
+}
+
+function findLanguage(
+	languages: readonly LanguageDescription[],
+	uri: string,
+	mimeType: string | undefined,
+): LanguageDescription | null {
+	const fileName = uri.split(/[/?#]/).filter(Boolean).pop() ?? "";
+	const subtype = mimeType?.split("/")[1]?.replace(/^x-/, "");
+	return (
+		LanguageDescription.matchFilename(languages, fileName) ??
+		(subtype ? LanguageDescription.matchLanguageName(languages, subtype, false) : null)
+	);
+}
+
+// Highlight code with a read-only editor using the language of the resource
+async function renderCode(
+	text: string,
+	language: LanguageDescription | null,
+): Promise<RenderedPreview> {
+	if (!language) {
+		const pre = document.createElement("pre");
+		pre.className = "cm-mcp-preview-code";
+		pre.textContent = text;
+		return { dom: pre };
+	}
+
+	const support = await language.load();
+	const view = new EditorView({
+		state: EditorState.create({
+			doc: text,
+			extensions: [
+				support,
+				syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+				EditorState.readOnly.of(true),
+				EditorView.editable.of(false),
+			],
+		}),
+	});
+	view.dom.classList.add("cm-mcp-preview-code");
+	return { dom: view.dom, destroy: () => view.destroy() };
+}
+
+function renderImage(content: { mimeType?: string; blob: string }, maxBytes: number): HTMLElement {
+	// Base64 takes 4 characters for every 3 bytes
+	const bytes = Math.floor((content.blob.length * 3) / 4);
+	if (bytes > maxBytes) {
+		return createElement("cm-mcp-preview-message", `Image too large to preview (${bytes} bytes)`);
+	}
+
+	const img = document.createElement("img");
+	img.className = "cm-mcp-preview-image";
+	img.src = `data:${content.mimeType};base64,${content.blob}`;
+	img.alt = "";
+	return img;
+}
+
+async function renderContent(
+	content: ResourceContents,
+	options: ResourcePreviewOptions,
+): Promise<RenderedPreview> {
+	const mimeType = content.mimeType?.split(";")[0]?.trim().toLowerCase();
+
+	if ("blob" in content) {
+		if (mimeType?.startsWith("image/")) {
+			return { dom: renderImage(content, options.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES) };
+		}
+		return {
+			dom: createElement(
+				"cm-mcp-preview-message",
+				`Binary content (${mimeType ?? "unknown type"})`,
+			),
+		};
+	}
+
+	const separator = mimeType && TABLE_SEPARATORS[mimeType];
+	if (separator) {
+		return { dom: renderTable(content.text, separator, options.maxRows ?? DEFAULT_MAX_ROWS) };
+	}
+
+	const { text, truncated } = truncate(
+		content.text,
+		options.maxLength ?? DEFAULT_MAX_LENGTH,
+		options.maxLines ?? DEFAULT_MAX_LINES,
+	);
+	const rendered =
+		mimeType && MARKDOWN_TYPES.includes(mimeType)
+			? { dom: renderMarkdown(text) }
+			: await renderCode(text, findLanguage(options.languages ?? [], content.uri, mimeType));
+
+	if (!truncated) return rendered;
+	const wrap = createElement("cm-mcp-preview-part");
+	wrap.append(rendered.dom, createElement("cm-mcp-preview-truncated", "…"));
+	return { dom: wrap, destroy: rendered.destroy };
+}
+
+/**
+ * Render a preview of resource contents by MIME type: tables for CSV, rendered Markdown,
+ * images for image blobs and code, highlighted when its language is known
+ */
+export async function renderResourcePreview(
+	contents: ResourceContents[],
+	options: ResourcePreviewOptions = {},
+): Promise<RenderedPreview> {
+	const dom = createElement("cm-mcp-preview");
+	// Only the first part is previewed, resources rarely have more
+	const [first] = contents;
+	if (!first) {
+		dom.appendChild(createElement("cm-mcp-preview-message", "Empty resource"));
+		return { dom };
+	}
+
+	const rendered = await renderContent(first, options);
+	dom.appendChild(rendered.dom);
+	if (contents.length > 1) {
+		dom.appendChild(createElement("cm-mcp-preview-truncated", `+${contents.length - 1} more`));
+	}
+	return { dom, destroy: rendered.destroy };
+}
+
+interface CachedRead {
+	/** Data of the resource when read, the resource is read again once its data is refreshed */
+	data: Resource["data"];
+	contents: Promise<ResourceContents[]>;
+	controller: AbortController;
+	/** Tooltips waiting for the read, it is cancelled once none is left */
+	waiting: number;
+	done: boolean;
+}
+
+/**
+ * Share the reads of a resource between previews until the resource data is refreshed,
+ * e.g. by a subscription. Failed and cancelled reads are not kept.
+ */
+export function cachePreviewReads(
+	readResource: ReadResourceContents,
+): (resource: Resource) => ReadResourceContents {
+	const reads = new Map<string, CachedRead>();
+
+	return (resource) => (uri, signal) => {
+		let read = reads.get(uri);
+		if (!read || read.data !== resource.data) {
+			const controller = new AbortController();
+			const created: CachedRead = {
+				data: resource.data,
+				contents: readResource(uri, controller.signal),
+				controller,
+				waiting: 0,
+				done: false,
+			};
+			created.contents.then(
+				() => {
+					created.done = true;
+				},
+				() => {
+					if (reads.get(uri) === created) reads.delete(uri);
+				},
+			);
+			reads.set(uri, created);
+			read = created;
+		}
+
+		const current = read;
+		current.waiting++;
+		signal.addEventListener(
+			"abort",
+			() => {
+				current.waiting--;
+				if (current.waiting > 0 || current.done) return;
+				current.controller.abort();
+				if (reads.get(uri) === current) reads.delete(uri);
+			},
+			{ once: true },
+		);
+		return current.contents;
+	};
+}
+
+/**
+ * Add a preview of the resource to a tooltip, read once the tooltip is shown.
+ * Shows a loading state meanwhile and cancels the read when the tooltip closes.
+ */
+export function withResourcePreview(
+	tooltip: TooltipView,
+	uri: string,
+	readResource: ReadResourceContents,
+	options: ResourcePreviewOptions = {},
+): TooltipView {
+	const controller = new AbortController();
+	const loading = createElement("cm-mcp-preview-loading", "Loading preview…");
+	tooltip.dom.appendChild(loading);
+	let destroyPreview: (() => void) | undefined;
+
+	readResource(uri, controller.signal)
+		.then((contents) => renderResourcePreview(contents, options))
+		.then(
+			(preview) => {
+				if (controller.signal.aborted) {
+					preview.destroy?.();
+					return;
+				}
+				destroyPreview = preview.destroy;
+				loading.replaceWith(preview.dom);
+			},
+			() => {
+				if (controller.signal.aborted) return;
+				loading.replaceWith(createElement("cm-mcp-preview-message", "Preview unavailable"));
+			},
+		);
+
+	return {
+		...tooltip,
+		destroy() {
+			controller.abort();
+			destroyPreview?.();
+			tooltip.destroy?.();
+		},
+	};
+}
@@ -13,15 +13,129 @@ export interface Resource<T = unknown> {
 	description?: string;
 	/** MIME type of the resource */
 	mimeType?: string;
+	/** Name of the MCP server the resource comes from */
+	server?: string;
+	/** Icons sent by the MCP server */
+	icons?: ResourceIcon[];
+	/** Size of the resource contents in bytes, when the server knows it */
+	size?: number;
 	/** The actual resource data */
 	data: T;
 }
 
+/**
+ * Parameterized resource, e.g. `db://tables/{table}/rows/{id}`
+ */
+export interface ResourceTemplate {
+	/** Type of the resources produced by the template */
+	type: string;
+	/** RFC 6570 URI template */
+	uriTemplate: string;
+	/** Display name for the template */
+	name: string;
+	/** Optional description of the template */
+	description?: string;
+	/** MIME type of the resources produced by the template */
+	mimeType?: string;
+	/** Name of the MCP server the template comes from */
+	server?: string;
+	/** Icons sent by the MCP server */
+	icons?: ResourceIcon[];
+}
+
+/**
+ * Icon metadata of an MCP resource or resource template
+ */
+export interface ResourceIcon {
+	/** URL of the image, `https:` or `data:` */
+	src: string;
+	mimeType?: string;
+	/** Sizes the image is available in, e.g. `["48x48"]` */
+	sizes?: string[];
+	/** Theme the icon is designed for */
+	theme?: "light" | "dark";
+}
+
+/** Fields resources and resource templates are grouped into completion sections by */
+export type ResourceGroupFields = Pick<Resource, "type" | "mimeType" | "server">;
+
+export interface ResourceSectionOptions {
+	/**
+	 * Group completions into sections by resource type (the URI scheme), MIME family
+	 * (`image`, `text`...), originating server, or a custom key. Ungrouped completions come first.
+	 */
+	groupBy?:
+		| "type"
+		| "mimeType"
+		| "server"
+		| ((resource: ResourceGroupFields) => string | undefined);
+	/** Section names in display order, other sections follow alphabetically */
+	sectionOrder?: string[];
+	/** Completion icon type per section name, e.g. `{ image: "image" }` for `cm-completionIcon-image` */
+	sectionIcons?: Record<string, string>;
+}
+
+export interface SearchResourcesOptions {
+	/** Maximum number of resources to return */
+	limit?: number;
+	/** Aborted when the search is no longer needed, e.g. once the user typed on */
+	signal?: AbortSignal;
+}
+
+/**
+ * Content of a resource as read from the server, text or base64-encoded binary
+ */
+export type ResourceContents =
+	| { uri: string; mimeType?: string; text: string }
+	| { uri: string; mimeType?: string; blob: string };
+
+/**
+ * Decoded content part of a resource: text, or the bytes of a binary part such as an image or PDF
+ */
+export type ResourceContentPart =
+	| { type: "text"; uri: string; mimeType?: string; text: string }
+	| { type: "blob"; uri: string; mimeType?: string; bytes: Uint8Array };
+
+export function decodeBase64(data: string): Uint8Array {
+	const binary = atob(data);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Decode a content part read from an MCP server, base64 blobs into bytes
+ */
+export function toContentPart(contents: ResourceContents): ResourceContentPart {
+	const { uri, mimeType } = contents;
+	const metadata = mimeType === undefined ? { uri } : { uri, mimeType };
+	return "blob" in contents
+		? { type: "blob", ...metadata, bytes: decodeBase64(contents.blob) }
+		: { type: "text", ...metadata, text: contents.text };
+}
+
+/**
+ * Text of the text parts of a resource, binary parts left out
+ */
+export function getContentText(parts: ResourceContentPart[]): string {
+	return parts.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("\n");
+}
+
 export interface ResourceProvider<T = unknown> {
-	/** Get all available resources */
-	getResources(): Promise<Resource<T>[]>;
+	/** Get all available resources, the signal cancels the request */
+	getResources(signal?: AbortSignal): Promise<Resource<T>[]>;
 	/** Get a specific resource by URI */
 	getResource?(uri: string): Promise<Resource<T> | null>;
+	/** Read the content parts of a resource, e.g. for previews */
+	readResourceContents?(uri: string, signal?: AbortSignal): Promise<ResourceContents[]>;
+	/** Stream available resources page by page */
+	getResourcePages?(signal?: AbortSignal): AsyncIterable<Resource<T>[]>;
+	/** Get all available resource templates */
+	getResourceTemplates?(signal?: AbortSignal): Promise<ResourceTemplate[]>;
+	/** Search resources on the backend, instead of listing them all */
+	searchResources?(query: string, options?: SearchResourcesOptions): Promise<Resource<T>[]>;
 }
 
 /**
@@ -42,6 +156,57 @@ export interface ResourceCompletionOptions<T = unknown> {
 	onResourceMouseOut?: (resource: Resource<T>) => void;
 }
 
+/**
+ * Extra sources for `resourceCompletion`.
+ * The prefix defaults to the resource trigger of the editor state, `@` unless configured.
+ */
+export interface ResourceCompletionConfig
+	extends Pick<ResourceCompletionOptions, "prefix">,
+		ResourceSectionOptions {
+	/**
+	 * Optional paginated source of resources, preferred over `getResources`.
+	 * The first page is shown right away and later pages are streamed into the open completion.
+	 */
+	getResourcePages?: () => AsyncIterable<Resource[]>;
+	/**
+	 * Optional backend search, preferred over listing resources for large catalogs.
+	 * Called once typing pauses, with a signal aborted when the query is superseded.
+	 */
+	searchResources?: (query: string, options: SearchResourcesOptions) => Promise<Resource[]>;
+	/** How long typing must pause before searching, in milliseconds, defaults to 150 */
+	searchDelay?: number;
+	/** Maximum number of search results, defaults to 50 */
+	searchLimit?: number;
+	/** Optional source of resource templates to offer alongside resources */
+	getResourceTemplates?: (signal?: AbortSignal) => Promise<ResourceTemplate[]>;
+	/** Optional completion of the template variable being filled in */
+	completeTemplateArgument?: (
+		template: ResourceTemplate,
+		argument: { name: string; value: string },
+		signal?: AbortSignal,
+	) => Promise<string[]>;
+}
+
+function getResourceType(uri: string): string {
+	const protocolMatch = uri.split("://");
+
+	if (protocolMatch.length > 1) {
+		// Has protocol separator - use the first part as type
+		return protocolMatch[0] ?? "unknown";
+	}
+	// No protocol separator - mark as unknown
+	return "unknown";
+}
+
+// Icons of resources and templates, from servers implementing the `icons` metadata
+function parseIcons(icons: unknown): ResourceIcon[] | undefined {
+	if (!Array.isArray(icons)) return undefined;
+	const parsed = icons.filter(
+		(icon): icon is ResourceIcon => typeof icon?.src === "string" && icon.src.length > 0,
+	);
+	return parsed.length > 0 ? parsed : undefined;
+}
+
 /**
  * Convert MCP Resource to generic Resource<T>
  */
@@ -51,28 +216,44 @@ export function fromMCPResource<T = unknown>(
 		name: string;
 		description?: string;
 		mimeType?: string;
+		icons?: unknown;
+		size?: unknown;
 	},
 	data: T,
 ): Resource<T> {
-	const protocolMatch = mcpResource.uri.split("://");
-	let type: string;
-
-	if (protocolMatch.length > 1) {
-		// Has protocol separator - use the first part as type
-		type = protocolMatch[0] ?? "unknown";
-	} else {
-		// No protocol separator - mark as unknown
-		type = "unknown";
-	}
-
-	return {
-		type,
+	const resource: Resource<T> = {
+		type: getResourceType(mcpResource.uri),
 		uri: mcpResource.uri,
 		name: mcpResource.name,
 		description: mcpResource.description,
 		mimeType: mcpResource.mimeType,
 		data,
 	};
+	// Older servers do not send sizes
+	if (typeof mcpResource.size === "number") resource.size = mcpResource.size;
+	const icons = parseIcons(mcpResource.icons);
+	return icons ? { ...resource, icons } : resource;
+}
+
+/**
+ * Convert MCP ResourceTemplate to generic ResourceTemplate
+ */
+export function fromMCPResourceTemplate(mcpTemplate: {
+	uriTemplate: string;
+	name: string;
+	description?: string;
+	mimeType?: string;
+	icons?: unknown;
+}): ResourceTemplate {
+	const template: ResourceTemplate = {
+		type: getResourceType(mcpTemplate.uriTemplate),
+		uriTemplate: mcpTemplate.uriTemplate,
+		name: mcpTemplate.name,
+		description: mcpTemplate.description,
+		mimeType: mcpTemplate.mimeType,
+	};
+	const icons = parseIcons(mcpTemplate.icons);
+	return icons ? { ...template, icons } : template;
 }
 
 /**
@@ -0,0 +1,92 @@
+/**
+ * Fuzzy matching of resources against a typed query
+ */
+
+export interface FuzzyMatch {
+	score: number;
+	/** `from, to` pairs of the matched parts of the text */
+	ranges: number[];
+}
+
+export interface SearchFields {
+	name: string;
+	uri: string;
+	description?: string;
+	mimeType?: string;
+}
+
+// How much a match in each field counts, names first
+const FIELD_WEIGHTS: [keyof SearchFields, number][] = [
+	["name", 3],
+	["uri", 2],
+	["description", 1],
+	["mimeType", 1],
+];
+
+function isWordStart(text: string, index: number): boolean {
+	if (index === 0) return true;
+	const before = text[index - 1] ?? "";
+	const char = text[index] ?? "";
+	return !/[a-z0-9]/i.test(before) || (/[a-z]/.test(before) && /[A-Z]/.test(char));
+}
+
+function addRange(ranges: number[], from: number, to: number) {
+	if (ranges.length > 0 && ranges[ranges.length - 1] === from) {
+		ranges[ranges.length - 1] = to;
+	} else {
+		ranges.push(from, to);
+	}
+}
+
+/**
+ * Match `query` in `text`, case-insensitively: as a substring first, then as a subsequence.
+ * Matches at the start of the text or of a word score higher.
+ */
+export function fuzzyMatch(text: string, query: string): FuzzyMatch | null {
+	if (!query) return { score: 0, ranges: [] };
+
+	const lowerText = text.toLowerCase();
+	const lowerQuery = query.toLowerCase();
+
+	const index = lowerText.indexOf(lowerQuery);
+	if (index !== -1) {
+		let score = 100 + query.length;
+		if (index === 0) score += 50;
+		else if (isWordStart(text, index)) score += 25;
+		return { score, ranges: [index, index + query.length] };
+	}
+
+	let score = 0;
+	let previous = -2;
+	const ranges: number[] = [];
+	for (let i = 0, j = 0; j < lowerQuery.length; i++) {
+		if (i >= lowerText.length) return null;
+		if (lowerText[i] !== lowerQuery[j]) continue;
+
+		score += 1;
+		if (i === previous + 1) score += 5;
+		if (isWordStart(text, i)) score += 10;
+		addRange(ranges, i, i + 1);
+		previous = i;
+		j++;
+	}
+	return { score, ranges };
+}
+
+/**
+ * Score a resource against a query over its name, URI, description and MIME type.
+ * Returns null when no field matches; ranges highlight the name.
+ */
+export function matchResource(fields: SearchFields, query: string): FuzzyMatch | null {
+	let best: FuzzyMatch | null = null;
+	for (const [field, weight] of FIELD_WEIGHTS) {
+		const match = fuzzyMatch(fields[field] ?? "", query);
+		if (!match) continue;
+
+		const score = match.score * weight;
+		if (!best || score > best.score) {
+			best = { score, ranges: field === "name" ? match.ranges : [] };
+		}
+	}
+	return best;
+}
@@ -0,0 +1,40 @@
+import type { Completion, CompletionSection } from "@codemirror/autocomplete";
+import type { ResourceGroupFields, ResourceSectionOptions } from "./resource.js";
+
+// Resources without a MIME type, when grouping by MIME family
+const OTHER_SECTION = "other";
+
+function getSectionName(
+	resource: ResourceGroupFields,
+	groupBy: NonNullable<ResourceSectionOptions["groupBy"]>,
+): string | undefined {
+	switch (groupBy) {
+		case "type":
+			return resource.type;
+		case "mimeType":
+			return resource.mimeType?.split("/")[0] || OTHER_SECTION;
+		case "server":
+			return resource.server;
+		default:
+			return groupBy(resource);
+	}
+}
+
+/**
+ * Section and icon of the completion of a resource or resource template,
+ * nothing unless `groupBy` is set
+ */
+export function getResourceSection(
+	resource: ResourceGroupFields,
+	options: ResourceSectionOptions,
+): Pick<Completion, "section" | "type"> {
+	if (!options.groupBy) return {};
+
+	const name = getSectionName(resource, options.groupBy);
+	if (!name) return {};
+
+	const rank = options.sectionOrder?.indexOf(name) ?? -1;
+	const section: CompletionSection = rank === -1 ? { name } : { name, rank };
+	const icon = options.sectionIcons?.[name];
+	return icon ? { section, type: icon } : { section };
+}
@@ -0,0 +1,131 @@
+import type { Resource, ResourceTemplate } from "./resource.js";
+
+type TemplatePart = { type: "literal"; value: string } | { type: "variable"; name: string };
+
+/**
+ * Split a URI template into literals and `{variable}` expressions.
+ * Only simple (level 1) expressions are supported; operators are ignored.
+ */
+export function parseUriTemplate(uriTemplate: string): TemplatePart[] {
+	const parts: TemplatePart[] = [];
+	let index = 0;
+	for (const match of uriTemplate.matchAll(/\{([^}]+)\}/g)) {
+		if (match.index > index) {
+			parts.push({ type: "literal", value: uriTemplate.slice(index, match.index) });
+		}
+		const name = (match[1] ?? "").replace(/^[+#./;?&]/, "");
+		parts.push({ type: "variable", name });
+		index = match.index + match[0].length;
+	}
+	if (index < uriTemplate.length) {
+		parts.push({ type: "literal", value: uriTemplate.slice(index) });
+	}
+	return parts;
+}
+
+export function getTemplateVariables(uriTemplate: string): string[] {
+	return parseUriTemplate(uriTemplate).flatMap((part) =>
+		part.type === "variable" ? [part.name] : [],
+	);
+}
+
+/**
+ * Literal text of the template before its first variable
+ */
+export function getTemplatePrefix(uriTemplate: string): string {
+	const [first] = parseUriTemplate(uriTemplate);
+	return first?.type === "literal" ? first.value : "";
+}
+
+export interface UriTemplateMatch {
+	/** Decoded values of the variables that have already been filled in */
+	values: Record<string, string>;
+	/** Name of the variable currently being filled in */
+	variable: string;
+	/** The (encoded) value typed so far for the current variable */
+	value: string;
+	/** Offset of the current value in the matched text */
+	offset: number;
+	/** Literal text that follows the current variable, up to the next variable */
+	suffix: string;
+	/** Whether the current variable is the last one in the template */
+	last: boolean;
+}
+
+/**
+ * Match a partially typed URI against a template, returning the variable being filled in.
+ * Returns null when the text does not follow the template or is already complete.
+ */
+export function matchUriTemplate(uriTemplate: string, text: string): UriTemplateMatch | null {
+	const parts = parseUriTemplate(uriTemplate);
+	const values: Record<string, string> = {};
+	let pos = 0;
+
+	for (const [index, part] of parts.entries()) {
+		if (part.type === "literal") {
+			if (!text.startsWith(part.value, pos)) return null;
+			pos += part.value.length;
+			continue;
+		}
+
+		const next = parts[index + 1];
+		const end = next?.type === "literal" ? text.indexOf(next.value, pos) : -1;
+		if (end === -1) {
+			const value = text.slice(pos);
+			if (/\s/.test(value)) return null;
+			return {
+				values,
+				variable: part.name,
+				value,
+				offset: pos,
+				suffix: next?.type === "literal" ? next.value : "",
+				last: !parts.slice(index + 1).some((p) => p.type === "variable"),
+			};
+		}
+
+		values[part.name] = decodeTemplateValue(text.slice(pos, end));
+		pos = end;
+	}
+
+	return null;
+}
+
+/**
+ * Expand a URI template with the given (unencoded) values
+ */
+export function expandUriTemplate(uriTemplate: string, values: Record<string, string>): string {
+	return parseUriTemplate(uriTemplate)
+		.map((part) =>
+			part.type === "literal" ? part.value : encodeURIComponent(values[part.name] ?? ""),
+		)
+		.join("");
+}
+
+export function decodeTemplateValue(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Create a concrete resource for a URI produced from a template
+ */
+export function fromResourceTemplate(
+	template: ResourceTemplate,
+	uri: string,
+	values: Record<string, string>,
+): Resource {
+	const filled = Object.values(values);
+	return {
+		type: template.type,
+		uri,
+		name: filled.length > 0 ? `${template.name}: ${filled.join(", ")}` : template.name,
+		description: template.description,
+		mimeType: template.mimeType,
+		server: template.server,
+		icons: template.icons,
+		data: undefined,
+	};
+}
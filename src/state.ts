@@ -1,5 +1,14 @@
-import { StateEffect, type StateEffectType, StateField } from "@codemirror/state";
-import type { Prompt, PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+import { type EditorState, StateEffect, type StateEffectType, StateField } from "@codemirror/state";
+import type {
+	CallToolResult,
+	Prompt,
+	PromptMessage,
+	Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ApprovalPolicy } from "./mcp/approval.js";
+import type { ConnectionState } from "./mcp/mcp-provider.js";
+import type { MCPServerPool } from "./mcp/server-pool.js";
+import { DEFAULT_RESOURCE_ICONS, type ResourceIconRegistry } from "./resources/icons.js";
 import type { Resource } from "./resources/resource.js";
 
 type ResourceURI = string;
@@ -36,6 +45,15 @@ interface MCPHandlers {
 	onResourceMouseOver?: (resource: Resource) => void;
 	onResourceMouseOut?: (resource: Resource) => void;
 	onPromptSubmit?: (opts: { messages: PromptMessage[] }) => void;
+	onToolResult?: (opts: ToolResult) => void;
+	approvalPolicy?: ApprovalPolicy;
+	promptMode?: "submit" | "insert";
+}
+
+export interface ToolResult {
+	tool: Tool;
+	arguments: Record<string, unknown>;
+	result: CallToolResult;
 }
 
 export const mcpOptionsField = StateField.define<MCPHandlers>({
@@ -45,6 +63,8 @@ export const mcpOptionsField = StateField.define<MCPHandlers>({
 			onResourceMouseOver: undefined,
 			onResourceMouseOut: undefined,
 			onPromptSubmit: undefined,
+			onToolResult: undefined,
+			approvalPolicy: undefined,
 		};
 	},
 	update(value) {
@@ -52,6 +72,110 @@ export const mcpOptionsField = StateField.define<MCPHandlers>({
 	},
 });
 
+export interface MCPTriggers {
+	/** Character(s) starting a resource mention, e.g. `@docs://readme` */
+	resource: string;
+	/** Character(s) starting a prompt command, e.g. `/summarize` */
+	prompt: string;
+	/** Character(s) starting a tool command, e.g. `!search` */
+	tool: string;
+}
+
+export const DEFAULT_TRIGGERS: MCPTriggers = {
+	resource: "@",
+	prompt: "/",
+	tool: "!",
+};
+
+// StateField holding the trigger characters, shared by completion, decorations, hover and the input filter
+export const triggersField = StateField.define<MCPTriggers>({
+	create() {
+		return DEFAULT_TRIGGERS;
+	},
+	update(value) {
+		return value;
+	},
+});
+
+export function getTriggers(state: EditorState): MCPTriggers {
+	return state.field(triggersField, false) ?? DEFAULT_TRIGGERS;
+}
+
+// StateField holding the resource icon registry, shared by completion, decorations and hover
+export const resourceIconsField = StateField.define<ResourceIconRegistry>({
+	create() {
+		return DEFAULT_RESOURCE_ICONS;
+	},
+	update(value) {
+		return value;
+	},
+});
+
+export function getResourceIcons(state: EditorState): ResourceIconRegistry {
+	return state.field(resourceIconsField, false) ?? DEFAULT_RESOURCE_ICONS;
+}
+
+export interface ResourceBudget {
+	/** Budget of all mentioned resources together, in estimated tokens */
+	maxTokens?: number;
+	/** Budget of each mentioned resource, in estimated tokens */
+	maxResourceTokens?: number;
+	/** Estimated tokens of the mentioned resources estimated so far, by URI */
+	tokens: Map<ResourceURI, number>;
+	/** Number of mentioned resources still being estimated */
+	pending: number;
+}
+
+// Effect to set the token estimates of the mentioned resources
+export const setResourceTokens = StateEffect.define<Pick<ResourceBudget, "tokens" | "pending">>();
+
+// StateField holding the token budget and estimates, null unless a budget is configured
+export const resourceBudgetField = StateField.define<ResourceBudget | null>({
+	create() {
+		return null;
+	},
+	update(value, tr) {
+		let newValue = value;
+		for (const e of tr.effects) {
+			if (e.is(setResourceTokens) && newValue) {
+				newValue = { ...newValue, ...e.value };
+			}
+		}
+		return newValue;
+	},
+});
+
+// StateField holding the servers connected by mcpExtension, e.g. to invalidate their caches
+export const mcpProviderField = StateField.define<MCPServerPool | null>({
+	create() {
+		return null;
+	},
+	update(value) {
+		return value;
+	},
+});
+
+type ConnectionStateMap = Map<string, ConnectionState>;
+
+// Effect to update the connection state of servers
+export const updateConnectionStates = StateEffect.define<ConnectionStateMap>();
+
+// StateField tracking the connection state of every server, by server name
+export const connectionStateField = StateField.define<ConnectionStateMap>({
+	create() {
+		return new Map<string, ConnectionState>();
+	},
+	update(oldStates, tr) {
+		let newStates = oldStates;
+		for (const e of tr.effects) {
+			if (e.is(updateConnectionStates)) {
+				newStates = new Map([...newStates, ...e.value]);
+			}
+		}
+		return newStates;
+	},
+});
+
 type PromptMap = Map<string, Prompt>;
 
 // Effect to update prompts
@@ -79,3 +203,31 @@ export const promptsField = StateField.define<PromptMap>({
 		return newPrompts;
 	},
 });
+
+type ToolMap = Map<string, Tool>;
+
+// Effect to update tools
+export const updateTools = StateEffect.define<ToolMap>();
+
+// StateField to track tools
+export const toolsField = StateField.define<ToolMap>({
+	create() {
+		return new Map<string, Tool>();
+	},
+	update(oldTools, tr) {
+		let updated = false;
+		let newTools = oldTools;
+		for (const e of tr.effects) {
+			if (e.is(updateTools)) {
+				if (!updated) {
+					newTools = new Map<string, Tool>(oldTools);
+					updated = true;
+				}
+				for (const [name, tool] of e.value) {
+					newTools.set(name, tool);
+				}
+			}
+		}
+		return newTools;
+	},
+});
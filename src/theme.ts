@@ -1,4 +1,13 @@
 import { EditorView } from "@codemirror/view";
+import { RESOURCE_ICON_GLYPHS } from "./resources/icons.js";
+
+// Glyphs of the icon kinds inline, in hover tooltips and in the completion list
+const iconGlyphs = Object.fromEntries(
+	Object.entries(RESOURCE_ICON_GLYPHS).map(([kind, glyph]) => [
+		`.cm-mcp-resource-icon-${kind}::before`,
+		{ content: JSON.stringify(glyph) },
+	]),
+);
 
 // Theme for resource decorations
 export const resourceTheme = EditorView.baseTheme({
@@ -12,6 +21,38 @@ export const resourceTheme = EditorView.baseTheme({
 	".cm-resource-widget:hover": {
 		background: "light-dark(rgba(86,156,214,0.18),rgba(86,156,214,0.28))",
 	},
+	".cm-mcp-resource-icon": {
+		display: "inline-block",
+		marginRight: "0.25em",
+		minWidth: "1em",
+		textAlign: "center",
+		opacity: "0.8",
+	},
+	".cm-mcp-resource-icon img": {
+		width: "1em",
+		height: "1em",
+		verticalAlign: "text-bottom",
+	},
+	// The resource icon replaces the icon of the completion type
+	".cm-completionIcon:has(+ .cm-mcp-resource-icon)": {
+		display: "none",
+	},
+	...iconGlyphs,
+	".cm-resource-widget-over-budget": {
+		textDecoration: "underline wavy light-dark(#c77700,#ffb74d)",
+		textUnderlineOffset: "3px",
+	},
+	".cm-prompt-widget": {
+		background: "light-dark(rgba(156,86,214,0.08),rgba(156,86,214,0.18))",
+		borderRadius: "4px",
+		padding: "2px 4px",
+		color: "light-dark(#7b3fb0,#d0a6ff)",
+		fontWeight: "500",
+	},
+	".cm-mcp-prompt-arguments": {
+		margin: "4px 0 0",
+		paddingLeft: "1.25em",
+	},
 	".cm-not-found-resource-widget": {
 		background: "light-dark(rgba(151,151,151,0.08),rgba(151,151,151,0.18))",
 		borderRadius: "4px",
@@ -19,4 +60,124 @@ export const resourceTheme = EditorView.baseTheme({
 		color: "light-dark(#b00020,#ff8080)",
 		fontWeight: "500",
 	},
+	".cm-mcp-server-badge": {
+		marginLeft: "0.5em",
+		padding: "0 4px",
+		borderRadius: "4px",
+		fontSize: "85%",
+		background: "light-dark(rgba(151,151,151,0.12),rgba(151,151,151,0.24))",
+		color: "light-dark(#555,#bbb)",
+	},
+	".cm-mcp-status-panel": {
+		padding: "2px 6px",
+		fontSize: "85%",
+	},
+	".cm-mcp-status": {
+		display: "flex",
+		alignItems: "center",
+		gap: "0.5em",
+	},
+	".cm-mcp-status-indicator": {
+		width: "8px",
+		height: "8px",
+		borderRadius: "50%",
+		background: "light-dark(#979797,#797979)",
+	},
+	".cm-mcp-status-connected .cm-mcp-status-indicator": {
+		background: "light-dark(#2e8b57,#5fd38d)",
+	},
+	".cm-mcp-status-connecting .cm-mcp-status-indicator": {
+		background: "light-dark(#c98a00,#ffc857)",
+	},
+	".cm-mcp-status-error .cm-mcp-status-indicator": {
+		background: "light-dark(#b00020,#ff8080)",
+	},
+	".cm-mcp-status-server": {
+		fontWeight: "500",
+	},
+	".cm-mcp-status-state": {
+		color: "light-dark(#555,#bbb)",
+	},
+	".cm-mcp-status-message": {
+		color: "light-dark(#b00020,#ff8080)",
+		overflow: "hidden",
+		textOverflow: "ellipsis",
+		whiteSpace: "nowrap",
+	},
+	".cm-mcp-status-retry": {
+		marginLeft: "auto",
+		font: "inherit",
+		cursor: "pointer",
+	},
+	".cm-mcp-budget-panel": {
+		padding: "2px 6px",
+		fontSize: "85%",
+		color: "light-dark(#555,#bbb)",
+	},
+	".cm-mcp-budget-over": {
+		color: "light-dark(#c77700,#ffb74d)",
+		fontWeight: "500",
+	},
+	".cm-mcp-approval": {
+		margin: "4px 0",
+		padding: "6px 8px",
+		borderRadius: "4px",
+		border: "1px solid light-dark(rgba(201,138,0,0.4),rgba(255,200,87,0.4))",
+		background: "light-dark(rgba(255,200,87,0.08),rgba(255,200,87,0.12))",
+	},
+	".cm-mcp-approval-title": {
+		fontWeight: "500",
+	},
+	".cm-mcp-approval-arguments": {
+		margin: "4px 0",
+		fontSize: "85%",
+		whiteSpace: "pre-wrap",
+	},
+	".cm-mcp-approval-buttons": {
+		display: "flex",
+		gap: "0.5em",
+	},
+	".cm-mcp-approval-buttons button": {
+		font: "inherit",
+		cursor: "pointer",
+	},
+	".cm-mcp-preview": {
+		marginTop: "4px",
+		paddingTop: "4px",
+		borderTop: "1px solid light-dark(rgba(151,151,151,0.3),rgba(151,151,151,0.4))",
+		maxWidth: "480px",
+		maxHeight: "320px",
+		overflow: "auto",
+	},
+	".cm-mcp-preview-loading, .cm-mcp-preview-message, .cm-mcp-preview-truncated": {
+		color: "light-dark(#555,#bbb)",
+		fontStyle: "italic",
+	},
+	".cm-mcp-preview-code": {
+		margin: "0",
+		fontFamily: "monospace",
+		fontSize: "90%",
+		whiteSpace: "pre",
+	},
+	".cm-mcp-preview-table": {
+		borderCollapse: "collapse",
+		fontSize: "90%",
+	},
+	".cm-mcp-preview-table th, .cm-mcp-preview-table td": {
+		padding: "1px 6px",
+		border: "1px solid light-dark(rgba(151,151,151,0.3),rgba(151,151,151,0.4))",
+		textAlign: "left",
+		whiteSpace: "nowrap",
+	},
+	".cm-mcp-preview-image": {
+		display: "block",
+		maxWidth: "240px",
+		maxHeight: "160px",
+	},
+	".cm-mcp-markdown > :first-child": {
+		marginTop: "0",
+	},
+	".cm-mcp-markdown > :last-child": {
+		marginBottom: "0",
+	},
 });
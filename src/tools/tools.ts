@@ -0,0 +1,99 @@
+import type {
+	CallToolResult,
+	Prompt,
+	PromptArgument,
+	Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+interface PropertySchema {
+	type?: string | string[];
+	description?: string;
+	enum?: unknown[];
+}
+
+function getProperties(tool: Tool): Record<string, PropertySchema> {
+	return (tool.inputSchema.properties ?? {}) as Record<string, PropertySchema>;
+}
+
+function hasType(schema: PropertySchema | undefined, type: string): boolean {
+	return Array.isArray(schema?.type) ? schema.type.includes(type) : schema?.type === type;
+}
+
+/**
+ * Describe a tool's `inputSchema` properties as prompt arguments, so tools can be
+ * completed Slack-style like prompts. Required properties come first.
+ */
+export function toolToPrompt(tool: Tool): Prompt {
+	const required = new Set(
+		Array.isArray(tool.inputSchema.required) ? (tool.inputSchema.required as string[]) : [],
+	);
+	const args: PromptArgument[] = Object.entries(getProperties(tool)).map(([name, schema]) => ({
+		name,
+		description: schema.description,
+		required: required.has(name),
+	}));
+
+	return {
+		name: tool.name,
+		description: tool.description,
+		arguments: [
+			...args.filter((argument) => argument.required),
+			...args.filter((argument) => !argument.required),
+		],
+	};
+}
+
+/**
+ * Known values of a tool argument, from its `enum` or boolean type
+ */
+export function getToolArgumentValues(tool: Tool, name: string): string[] {
+	const schema = getProperties(tool)[name];
+	if (schema?.enum) {
+		return schema.enum.map((value) => (typeof value === "string" ? value : JSON.stringify(value)));
+	}
+	if (hasType(schema, "boolean")) {
+		return ["true", "false"];
+	}
+	return [];
+}
+
+/**
+ * Convert the typed argument values to the JSON types declared by the tool's `inputSchema`
+ */
+export function coerceToolArguments(
+	tool: Tool,
+	args: Record<string, string>,
+): Record<string, unknown> {
+	const properties = getProperties(tool);
+	const coerced: Record<string, unknown> = {};
+	for (const [name, value] of Object.entries(args)) {
+		const schema = properties[name];
+		if (hasType(schema, "string") || !schema?.type) {
+			coerced[name] = value;
+			continue;
+		}
+
+		try {
+			coerced[name] = JSON.parse(value);
+		} catch {
+			// Let the server report the invalid value
+			coerced[name] = value;
+		}
+	}
+	return coerced;
+}
+
+/**
+ * Text content of a tool result, including embedded text resources
+ */
+export function getToolResultText(result: CallToolResult): string {
+	return result.content
+		.flatMap((content) => {
+			if (content.type === "text") return [content.text];
+			if (content.type === "resource" && "text" in content.resource) {
+				return [content.resource.text];
+			}
+			return [];
+		})
+		.join("\n");
+}
@@ -0,0 +1,60 @@
+import { language, syntaxTree } from "@codemirror/language";
+import type { EditorState } from "@codemirror/state";
+
+export interface TriggerContext {
+	/** What the trigger starts */
+	kind: "resource" | "prompt" | "tool";
+	/** The trigger character(s) */
+	trigger: string;
+	/** Position of the trigger in the document */
+	from: number;
+	state: EditorState;
+}
+
+export interface TriggerGuardOptions {
+	/** Only trigger at the start of a word, not in `me@example.com` or `a/b`, defaults to true */
+	wordBoundary?: boolean;
+	/** Only trigger in prose and comments according to the syntax tree, defaults to true */
+	syntax?: boolean;
+	/** Languages whose text outside of code and strings is prose, defaults to `["markdown"]` */
+	proseLanguages?: string[];
+	/** Custom rule, checked after the built-in ones */
+	predicate?: (context: TriggerContext) => boolean;
+}
+
+const WORD_START_PATTERN = /[\s([{"'`]/;
+const COMMENT_NODE_PATTERN = /comment/i;
+const CODE_NODE_PATTERN = /string|code/i;
+
+function isWordStart(state: EditorState, pos: number): boolean {
+	if (pos === state.doc.lineAt(pos).from) return true;
+	return WORD_START_PATTERN.test(state.sliceDoc(pos - 1, pos));
+}
+
+/**
+ * Whether the syntax tree puts `pos` in a comment, or in prose outside of code and strings.
+ * Documents without a language are plain prose.
+ */
+function isProseOrComment(state: EditorState, pos: number, proseLanguages: string[]): boolean {
+	const tree = syntaxTree(state);
+	for (let node: typeof tree.topNode | null = tree.resolveInner(pos, 1); node; node = node.parent) {
+		if (COMMENT_NODE_PATTERN.test(node.name)) return true;
+		if (CODE_NODE_PATTERN.test(node.name)) return false;
+	}
+
+	const lang = state.facet(language);
+	return !lang || proseLanguages.includes(lang.name);
+}
+
+/**
+ * Create a check for whether a trigger at some position should open completions
+ */
+export function createTriggerGuard(options: TriggerGuardOptions = {}) {
+	const { wordBoundary = true, syntax = true, proseLanguages = ["markdown"], predicate } = options;
+
+	return (context: TriggerContext): boolean => {
+		if (wordBoundary && !isWordStart(context.state, context.from)) return false;
+		if (syntax && !isProseOrComment(context.state, context.from, proseLanguages)) return false;
+		return predicate?.(context) ?? true;
+	};
+}
@@ -1,7 +1,31 @@
-export const URI_PATTERN = /@[\w-]+:\/\/(?!\/)[^\s]+/;
+import type { CompletionContext } from "@codemirror/autocomplete";
 
-export function matchAllURIs(text: string) {
-	return text.matchAll(new RegExp(URI_PATTERN.source, "g"));
+/**
+ * Matches a resource mention starting with `prefix`.
+ * Schemes may be qualified with the server they come from, e.g. `@db+file://notes.txt`
+ */
+export function createUriPattern(prefix = "@"): RegExp {
+	return new RegExp(`${escapeRegExp(prefix)}[\\w-]+(?:\\+[\\w-]+)?:\\/\\/(?!\\/)[^\\s]+`);
+}
+
+export const URI_PATTERN = createUriPattern("@");
+
+export function matchAllURIs(text: string, prefix = "@") {
+	return text.matchAll(new RegExp(createUriPattern(prefix).source, "g"));
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Signal aborted when CodeMirror aborts the completion query, including on further typing,
+ * so pending MCP requests are cancelled and their results dropped
+ */
+export function getAbortSignal(context: CompletionContext): AbortSignal {
+	const controller = new AbortController();
+	context.addEventListener("abort", () => controller.abort(), { onDocChange: true });
+	return controller.signal;
 }
 
 export function invariant(condition: boolean, message: string): asserts condition {